@@ -0,0 +1,85 @@
+#!/usr/bin/env node
+/**
+ * Precompute beat maps so the player can skip live detection.
+ * Decodes each song with ffmpeg, runs the same analysis the browser runs
+ * (src/beat-detect.ts, with the settings in src/config.ts and each
+ * track's BPM override) and writes <song>.beats.json next to the audio.
+ *
+ * Usage:
+ *   npm run analyze                      # every track in public/playlist.json
+ *   npm run analyze -- public/other.mp3  # any single file
+ */
+
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { analyzeMono } from '../src/beat-detect';
+import { beatMapPath, toBeatMap } from '../src/beat-map';
+import { config } from '../src/config';
+import type { Track } from '../src/playlist';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const PROJECT_DIR = path.resolve(__dirname, '..');
+const PUBLIC_DIR = path.join(PROJECT_DIR, 'public');
+const SAMPLE_RATE = 44100;
+
+function loadTracks(): { file: string; bpm?: number }[] {
+  if (process.argv[2]) {
+    return [{ file: path.resolve(process.argv[2]) }];
+  }
+
+  const playlistFile = path.join(PUBLIC_DIR, config.playlistPath);
+  if (fs.existsSync(playlistFile)) {
+    const tracks: Track[] = JSON.parse(fs.readFileSync(playlistFile, 'utf8'));
+    return tracks.map((t) => ({ file: path.join(PUBLIC_DIR, t.src), bpm: t.bpm }));
+  }
+
+  return [{ file: path.join(PUBLIC_DIR, config.songPath) }];
+}
+
+function decode(file: string): Float32Array {
+  // Decode to raw mono 32-bit float PCM on stdout
+  const pcm = execFileSync(
+    'ffmpeg',
+    ['-i', file, '-f', 'f32le', '-ac', '1', '-ar', String(SAMPLE_RATE), '-loglevel', 'error', '-'],
+    { maxBuffer: 1024 * 1024 * 1024 },
+  );
+
+  // Copy into an aligned buffer — Node's Buffer pool offset may not be 4-byte aligned
+  const mono = new Float32Array(pcm.length / 4);
+  new Uint8Array(mono.buffer).set(pcm.subarray(0, mono.length * 4));
+  return mono;
+}
+
+let failed = 0;
+
+for (const { file, bpm } of loadTracks()) {
+  if (!fs.existsSync(file)) {
+    console.error(`MISSING: ${file}`);
+    failed++;
+    continue;
+  }
+
+  let mono: Float32Array;
+  try {
+    mono = decode(file);
+  } catch (err) {
+    console.error(`FAILED: ${path.basename(file)} — ffmpeg could not decode it. Install it with: brew install ffmpeg`);
+    console.error((err as Error).message);
+    failed++;
+    continue;
+  }
+
+  console.log(`Analyzing ${path.basename(file)} (${(mono.length / SAMPLE_RATE).toFixed(1)}s)...`);
+  const data = analyzeMono(mono, SAMPLE_RATE, { bpmOverride: bpm });
+
+  const outFile = beatMapPath(file);
+  fs.writeFileSync(outFile, JSON.stringify(toBeatMap(data)));
+
+  console.log(`  BPM: ${data.bpm} | Beats: ${data.beats.length} | Meter: ${data.meter}/4`);
+  console.log(`  Sections: ${data.sections.map((s) => s.label).join(' → ')}`);
+  console.log(`  Beat map written to: ${outFile}`);
+}
+
+if (failed > 0) process.exit(1);
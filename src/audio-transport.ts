@@ -0,0 +1,97 @@
+/**
+ * Seekable song playback on top of Web Audio.
+ * An AudioBufferSourceNode can only play once, so seeking stops the
+ * current node and starts a fresh one at the new offset. Everything
+ * synced to the song measures time from `startTime` — the audio clock
+ * reading at which the song would have been at 0:00 — and gets the new
+ * value through `onSeek`.
+ */
+
+/**
+ * What the show runs against: a song (`AudioTransport`), or live input
+ * (`LiveInput`), which never ends and can't seek.
+ */
+export interface SongClock {
+  /** Every source plays through this — tap it to record the song */
+  readonly output: GainNode;
+  /** Song length (seconds); Infinity for live input */
+  readonly duration: number;
+  /** Audio clock time at which the song's 0:00 sits */
+  startTime: number;
+  /** Seconds into the song */
+  readonly elapsed: number;
+  onEnded: (() => void) | null;
+  onSeek: ((startTime: number) => void) | null;
+  play(offset?: number): void;
+  seek(position: number): void;
+  stop(): void;
+}
+
+export class AudioTransport implements SongClock {
+  private audioCtx: AudioContext;
+  private buffer: AudioBuffer;
+  private source: AudioBufferSourceNode | null = null;
+
+  /** Every source plays through this — tap it to record the song */
+  readonly output: GainNode;
+
+  /** Song length actually played (seconds) */
+  readonly duration: number;
+  /** Audio clock time at which the song's 0:00 sits */
+  startTime = 0;
+
+  onEnded: (() => void) | null = null;
+  onSeek: ((startTime: number) => void) | null = null;
+
+  constructor(audioCtx: AudioContext, buffer: AudioBuffer, maxDuration = buffer.duration) {
+    this.audioCtx = audioCtx;
+    this.buffer = buffer;
+    this.duration = Math.min(buffer.duration, maxDuration);
+    this.output = audioCtx.createGain();
+    this.output.connect(audioCtx.destination);
+  }
+
+  /** Seconds into the song */
+  get elapsed(): number {
+    return Math.max(0, Math.min(this.audioCtx.currentTime - this.startTime, this.duration));
+  }
+
+  /** Start playing from `offset` seconds */
+  play(offset = 0) {
+    this.detach();
+
+    const source = this.audioCtx.createBufferSource();
+    source.buffer = this.buffer;
+    source.connect(this.output);
+    const now = this.audioCtx.currentTime;
+    this.startTime = now - offset;
+    source.start(now, offset, this.duration - offset);
+    source.onended = () => this.onEnded?.();
+    this.source = source;
+  }
+
+  /** Jump to `position` seconds. Works while suspended, too. */
+  seek(position: number) {
+    const clamped = Math.max(0, Math.min(position, this.duration - 0.05));
+    this.play(clamped);
+    this.onSeek?.(this.startTime);
+  }
+
+  stop() {
+    this.detach();
+    this.output.disconnect();
+  }
+
+  /** Stop the current node without it reporting the song as ended */
+  private detach() {
+    if (!this.source) return;
+    this.source.onended = null;
+    try {
+      this.source.stop();
+    } catch {
+      // Never started or already stopped
+    }
+    this.source.disconnect();
+    this.source = null;
+  }
+}
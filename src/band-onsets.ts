@@ -0,0 +1,185 @@
+/**
+ * Multi-band onset detection.
+ * Splits the song into low / mid / high bands with a short-time FFT and
+ * picks onsets in each band separately, giving rough kick, snare and
+ * hi-hat event streams that effects can react to.
+ */
+
+export interface BandEvents {
+  /** Low-band (≈40–150 Hz) onset times in seconds */
+  kick: number[];
+  /** Mid-band (≈200–2500 Hz) onset times in seconds */
+  snare: number[];
+  /** High-band (≈6–16 kHz) onset times in seconds */
+  hat: number[];
+}
+
+interface Band {
+  name: keyof BandEvents;
+  lo: number;
+  hi: number;
+  /** Shortest gap between two onsets in this band (seconds) */
+  minGap: number;
+}
+
+const BANDS: Band[] = [
+  { name: 'kick', lo: 40, hi: 150, minGap: 0.1 },
+  { name: 'snare', lo: 200, hi: 2500, minGap: 0.1 },
+  { name: 'hat', lo: 6000, hi: 16000, minGap: 0.05 },
+];
+
+const FFT_SIZE = 1024;
+const HOP_SIZE = 512;
+
+/** Peak picking: frames either side for the adaptive threshold */
+const PEAK_WINDOW = 8;
+/** Peak picking: how far above the local mean a peak must rise */
+const PEAK_MULTIPLIER = 1.5;
+/** Peak picking: absolute floor, relative to the band's loudest flux */
+const PEAK_FLOOR = 0.08;
+
+/**
+ * Detect per-band onsets in a mono signal.
+ * Each band's flux is the rectified frame-to-frame rise in log magnitude,
+ * peaks are picked against a moving-average threshold.
+ */
+export function detectBandOnsets(
+  samples: Float32Array,
+  sampleRate: number,
+  onProgress?: (fraction: number) => void,
+): BandEvents {
+  const numFrames = Math.floor((samples.length - FFT_SIZE) / HOP_SIZE);
+  const events: BandEvents = { kick: [], snare: [], hat: [] };
+  if (numFrames <= 1) return events;
+
+  const binHz = sampleRate / FFT_SIZE;
+  const ranges = BANDS.map((b) => [
+    Math.max(1, Math.floor(b.lo / binHz)),
+    Math.min(FFT_SIZE / 2 - 1, Math.ceil(b.hi / binHz)),
+  ]);
+
+  const window = new Float32Array(FFT_SIZE);
+  for (let i = 0; i < FFT_SIZE; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (FFT_SIZE - 1));
+  }
+
+  const [cos, sin] = twiddles(FFT_SIZE);
+  const re = new Float32Array(FFT_SIZE);
+  const im = new Float32Array(FFT_SIZE);
+  const prev = new Float32Array(FFT_SIZE / 2);
+  const mag = new Float32Array(FFT_SIZE / 2);
+  const flux = BANDS.map(() => new Float32Array(numFrames));
+
+  for (let f = 0; f < numFrames; f++) {
+    const offset = f * HOP_SIZE;
+    for (let i = 0; i < FFT_SIZE; i++) {
+      re[i] = samples[offset + i] * window[i];
+      im[i] = 0;
+    }
+    fft(re, im, cos, sin);
+
+    // Mild log compression: quiet hats still register, but attack
+    // transients from other bands don't swamp each band's flux
+    for (let k = 0; k < mag.length; k++) {
+      mag[k] = Math.log1p(Math.hypot(re[k], im[k]));
+    }
+
+    for (let b = 0; b < BANDS.length; b++) {
+      const [lo, hi] = ranges[b];
+      let sum = 0;
+      for (let k = lo; k <= hi; k++) {
+        const diff = mag[k] - prev[k];
+        if (diff > 0) sum += diff;
+      }
+      flux[b][f] = f === 0 ? 0 : sum / (hi - lo + 1);
+    }
+
+    prev.set(mag);
+
+    if (f % 512 === 0) onProgress?.(f / numFrames);
+  }
+
+  for (let b = 0; b < BANDS.length; b++) {
+    const band = BANDS[b];
+    events[band.name] = pickPeaks(flux[b], band.minGap, sampleRate);
+  }
+
+  return events;
+}
+
+/** Local maxima above an adaptive threshold, at least `minGap` apart */
+function pickPeaks(flux: Float32Array, minGap: number, sampleRate: number): number[] {
+  let max = 0;
+  for (let i = 0; i < flux.length; i++) if (flux[i] > max) max = flux[i];
+  if (max === 0) return [];
+
+  const floor = max * PEAK_FLOOR;
+  const times: number[] = [];
+  let last = -Infinity;
+
+  for (let i = 1; i < flux.length - 1; i++) {
+    const v = flux[i];
+    if (v < floor || v < flux[i - 1] || v <= flux[i + 1]) continue;
+
+    let mean = 0;
+    let count = 0;
+    for (let j = Math.max(0, i - PEAK_WINDOW); j <= Math.min(flux.length - 1, i + PEAK_WINDOW); j++) {
+      mean += flux[j];
+      count++;
+    }
+    if (v < (mean / count) * PEAK_MULTIPLIER) continue;
+
+    const t = (i * HOP_SIZE + FFT_SIZE / 2) / sampleRate;
+    if (t - last < minGap) continue;
+    times.push(t);
+    last = t;
+  }
+
+  return times;
+}
+
+/** Twiddle factors for an n-point FFT: cos/sin of -2πk/n for k < n/2 */
+function twiddles(n: number): [Float32Array, Float32Array] {
+  const cos = new Float32Array(n / 2);
+  const sin = new Float32Array(n / 2);
+  for (let k = 0; k < n / 2; k++) {
+    cos[k] = Math.cos((-2 * Math.PI * k) / n);
+    sin[k] = Math.sin((-2 * Math.PI * k) / n);
+  }
+  return [cos, sin];
+}
+
+/** In-place iterative radix-2 FFT (length must be a power of two) */
+function fft(re: Float32Array, im: Float32Array, cos: Float32Array, sin: Float32Array) {
+  const n = re.length;
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      let t = re[i]; re[i] = re[j]; re[j] = t;
+      t = im[i]; im[i] = im[j]; im[j] = t;
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const half = size >> 1;
+    const stride = n / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < half; k++) {
+        const wr = cos[k * stride];
+        const wi = sin[k * stride];
+        const a = start + k;
+        const b = a + half;
+        const tr = re[b] * wr - im[b] * wi;
+        const ti = re[b] * wi + im[b] * wr;
+        re[b] = re[a] - tr;
+        im[b] = im[a] - ti;
+        re[a] += tr;
+        im[a] += ti;
+      }
+    }
+  }
+}
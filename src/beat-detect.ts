@@ -1,62 +1,329 @@
 import { config } from './config';
+import { detectBandOnsets, type BandEvents } from './band-onsets';
+
+export type SectionLabel = 'intro' | 'verse' | 'chorus' | 'drop' | 'breakdown' | 'outro';
+
+export interface Section {
+  label: SectionLabel;
+  /** Index into `beats` where the section starts */
+  startBeat: number;
+  /** Start/end in seconds */
+  start: number;
+  end: number;
+  /** Loudness relative to the loudest section, 0–1 */
+  energy: number;
+}
 
 export interface BeatData {
   bpm: number;
   beats: number[];
+  /** Onset strength at each beat, 0–1 (parallel to `beats`) */
+  confidence: number[];
+  /** Local tempo in BPM at each beat (parallel to `beats`) */
+  tempo: number[];
+  /** Beats per bar (3 or 4) */
+  meter: number;
+  /** Indices into `beats` where a bar starts */
+  downbeats: number[];
+  /** Labelled song sections in playback order, covering the whole song */
+  sections: Section[];
+  /** Kick / snare / hi-hat onset times from band-split detection */
+  events: BandEvents;
+}
+
+/** Per-song analysis settings that override `config` */
+export interface AnalysisOptions {
+  /** Force a BPM instead of estimating it */
+  bpmOverride?: number | null;
 }
 
+/** Analysis progress, 0–1 */
+export type ProgressCallback = (fraction: number) => void;
+
+/** Beat positions before bar, section and band analysis */
+type GridData = Pick<BeatData, 'bpm' | 'beats' | 'confidence' | 'tempo'>;
+
+/** Analysis window and hop for the onset detection function (samples) */
+export const WINDOW_SIZE = 1024;
+export const HOP_SIZE = 512;
+
+/** Penalty weight for deviating from the expected beat period */
+const TRACKER_TIGHTNESS = 100;
+
+/** The first real onset: where the onset curve, smoothed over this many frames, first reaches this fraction of its peak */
+const ONSET_SMOOTHING = 5;
+const FIRST_ONSET_LEVEL = 0.15;
+
+/** Leading silence: RMS under about -50 dBFS, until the audio stays above it this long (seconds) */
+const SILENCE_RMS = 0.003;
+const MIN_AUDIBLE = 0.1;
+
+/** Accent contrast 3/4 must beat 4/4 by before we call it a waltz */
+const WALTZ_MARGIN = 0.05;
+
+/** Shortest section, and the span compared either side of a boundary (bars) */
+const MIN_SECTION_BARS = 4;
+
+/** Smallest feature change (loudness + density, 0–2) that counts as a new section */
+const MIN_NOVELTY = 0.15;
+
 /**
- * Detect BPM and generate a beat grid from an AudioBuffer.
- * Uses energy-based onset detection + autocorrelation for BPM estimation.
+ * Section loudness over the song's mean that makes a chorus, and a drop;
+ * and under it that makes a section quiet (intro, outro, breakdown).
+ * Measured against the mean, so a song without real contrast stays verses.
  */
-export function detectBeats(audioBuffer: AudioBuffer): BeatData {
-  if (config.bpmOverride) {
-    return buildGrid(config.bpmOverride, audioBuffer.duration);
-  }
+const CHORUS_LIFT = 1.15;
+const DROP_LIFT = 1.3;
+const QUIET_DIP = 0.75;
+
+/** RMS under which a section is quiet whatever the rest of the song does (about -40 dBFS) */
+const SILENT_RMS = 0.01;
+
+/**
+ * Detect BPM and track beats through an AudioBuffer.
+ * Uses energy-based onset detection + autocorrelation for BPM estimation,
+ * then either follows the tempo with a dynamic-programming tracker or
+ * lays a fixed grid phase-aligned to the strongest onsets.
+ */
+export function detectBeats(audioBuffer: AudioBuffer, options: AnalysisOptions = {}): BeatData {
+  return analyzeMono(mixToMono(audioBuffer), audioBuffer.sampleRate, options);
+}
 
-  const mono = mixToMono(audioBuffer);
-  const sampleRate = audioBuffer.sampleRate;
+/**
+ * Run the full analysis on mono samples. Split out from `detectBeats` so
+ * it can run where there's no AudioBuffer (the analysis worker and the
+ * offline analysis script).
+ */
+export function analyzeMono(
+  mono: Float32Array,
+  sampleRate: number,
+  options: AnalysisOptions = {},
+  onProgress?: ProgressCallback,
+): BeatData {
+  const duration = mono.length / sampleRate;
+  // Map a stage's own 0–1 progress into its slice of the whole run
+  const stage = (from: number, to: number): ProgressCallback =>
+    (fraction) => onProgress?.(from + (to - from) * fraction);
 
   // Compute onset detection function (energy flux)
   const onsets = computeOnsets(mono, sampleRate);
+  onProgress?.(0.1);
+
+  // Estimate BPM via autocorrelation (unless overridden)
+  const bpm = options.bpmOverride || config.bpmOverride || estimateBPM(onsets, sampleRate, stage(0.1, 0.4));
+
+  let data: GridData;
+  if (config.beatTracking === 'dynamic' && onsets.length > 0) {
+    data = trackBeats(onsets, sampleRate, bpm, duration, leadingSilence(mono, sampleRate));
+  } else {
+    // Lock the grid to the onsets, then apply the manual offset on top
+    const phase = estimatePhase(onsets, sampleRate, bpm);
+    data = buildGrid(bpm, duration, phase + config.beatOffset, onsets, sampleRate);
+  }
+  onProgress?.(0.5);
+
+  // Bars: accent each beat by its bass weight + onset strength
+  const accents = accentBeats(data.beats, data.confidence, mono, sampleRate);
+  const { meter, downbeats } = detectDownbeats(accents);
 
-  // Estimate BPM via autocorrelation
-  const bpm = estimateBPM(onsets, sampleRate);
+  const sections = segmentSections(data.beats, data.confidence, downbeats, mono, sampleRate, duration);
+  onProgress?.(0.55);
 
-  return buildGrid(bpm, audioBuffer.duration);
+  const events = detectBandOnsets(mono, sampleRate, stage(0.55, 1));
+  onProgress?.(1);
+
+  return { ...data, meter, downbeats, sections, events };
 }
 
 /**
- * Build an evenly-spaced beat grid from BPM.
+ * Build an evenly-spaced beat grid from BPM, starting at `start` seconds.
+ * Each beat is scored against the onset function for confidence.
  */
-function buildGrid(bpm: number, duration: number): BeatData {
+function buildGrid(
+  bpm: number,
+  duration: number,
+  start: number,
+  onsets: Float32Array,
+  sampleRate: number,
+): GridData {
   const interval = 60 / bpm;
   const beats: number[] = [];
 
-  // Find a reasonable start — use the beat offset from config
-  let t = config.beatOffset;
+  // Wrap the start into the first beat period so the grid covers the intro
+  let t = ((start % interval) + interval) % interval;
   while (t < duration) {
     beats.push(t);
     t += interval;
   }
 
-  return { bpm: Math.round(bpm * 10) / 10, beats };
+  const confidence = scoreBeats(beats, onsets, sampleRate);
+  const rounded = Math.round(bpm * 10) / 10;
+
+  return { bpm: rounded, beats, confidence, tempo: beats.map(() => rounded) };
+}
+
+/**
+ * Dynamic-programming beat tracker (after Ellis, 2007).
+ * Each onset frame accumulates the best score of a previous beat between
+ * half and twice the expected period back, penalized by how far that gap
+ * strays from the period on a log scale. Backtracking from the best final
+ * frame yields beats that follow drift and tempo changes instead of a
+ * fixed grid. No beat lands before the first real onset, or inside
+ * `leadIn` seconds of leading silence — so silence has no beats at all.
+ */
+function trackBeats(
+  onsets: Float32Array,
+  sampleRate: number,
+  bpm: number,
+  duration: number,
+  leadIn: number,
+): GridData {
+  const hopRate = sampleRate / HOP_SIZE;
+  const period = hopRate * (60 / bpm); // frames per beat
+  const n = onsets.length;
+  const rounded = Math.round(bpm * 10) / 10;
+
+  // Chains only run through frames from the start of the music, so a
+  // stray click or noise floor ahead of it can't become a beat
+  const onset = firstOnset(onsets);
+  const first = Math.max(onset, Math.ceil(timeToFrame(leadIn, sampleRate)));
+  if (onset === -1 || first >= n) return { bpm: rounded, beats: [], confidence: [], tempo: [] };
+
+  // Normalize by standard deviation so the tightness weight is scale-free
+  let mean = 0;
+  for (let i = 0; i < n; i++) mean += onsets[i];
+  mean /= n;
+  let variance = 0;
+  for (let i = 0; i < n; i++) variance += (onsets[i] - mean) ** 2;
+  const std = Math.sqrt(variance / n) || 1;
+
+  const score = new Float32Array(n);
+  const backlink = new Int32Array(n).fill(-1);
+  const minGap = Math.max(1, Math.round(period / 2));
+  const maxGap = Math.round(period * 2);
+
+  for (let i = 0; i < n; i++) {
+    const local = onsets[i] / std;
+    let best = -Infinity;
+    let bestPrev = -1;
+
+    for (let gap = minGap; gap <= maxGap && gap <= i - first; gap++) {
+      const drift = Math.log(gap / period);
+      const candidate = score[i - gap] - TRACKER_TIGHTNESS * drift * drift;
+      if (candidate > best) {
+        best = candidate;
+        bestPrev = i - gap;
+      }
+    }
+
+    if (bestPrev !== -1) {
+      score[i] = local + best;
+      backlink[i] = bestPrev;
+    } else {
+      score[i] = local;
+    }
+  }
+
+  // Best-scoring frame within the last period ends the chain
+  let end = n - 1;
+  for (let i = Math.max(0, n - Math.ceil(period)); i < n; i++) {
+    if (score[i] > score[end]) end = i;
+  }
+
+  const frames: number[] = [];
+  for (let i = end; i >= 0; i = backlink[i]) frames.push(i);
+  frames.reverse();
+
+  const beats = frames
+    .map((f) => frameToTime(f, sampleRate) + config.beatOffset)
+    .filter((t) => t >= 0 && t < duration);
+
+  const confidence = scoreBeats(beats, onsets, sampleRate);
+  const tempo = tempoCurve(beats, bpm);
+
+  return { bpm: rounded, beats, confidence, tempo };
+}
+
+/** Frame where the onset curve, smoothed, first reaches FIRST_ONSET_LEVEL of its peak (-1 if it's flat) */
+function firstOnset(onsets: Float32Array): number {
+  const half = Math.floor(ONSET_SMOOTHING / 2);
+  const smoothed = new Float32Array(onsets.length);
+  let peak = 0;
+  for (let i = 0; i < onsets.length; i++) {
+    const from = Math.max(0, i - half);
+    const to = Math.min(onsets.length - 1, i + half);
+    let sum = 0;
+    for (let j = from; j <= to; j++) sum += onsets[j];
+    smoothed[i] = sum / (to - from + 1);
+    if (smoothed[i] > peak) peak = smoothed[i];
+  }
+  if (peak === 0) return -1;
+  return smoothed.findIndex((v) => v >= peak * FIRST_ONSET_LEVEL);
+}
+
+/**
+ * Seconds of silence at the start of the song: up to the first window
+ * whose RMS reaches SILENCE_RMS and stays there for MIN_AUDIBLE, so a
+ * click doesn't end it. All of it, if nothing is ever audible.
+ */
+function leadingSilence(samples: Float32Array, sampleRate: number): number {
+  const needed = Math.ceil((MIN_AUDIBLE * sampleRate) / HOP_SIZE);
+  let run = 0;
+  for (let start = 0; start + WINDOW_SIZE <= samples.length; start += HOP_SIZE) {
+    let sum = 0;
+    for (let i = start; i < start + WINDOW_SIZE; i++) sum += samples[i] * samples[i];
+    run = Math.sqrt(sum / WINDOW_SIZE) >= SILENCE_RMS ? run + 1 : 0;
+    if (run >= needed) return (start - (needed - 1) * HOP_SIZE) / sampleRate;
+  }
+  return samples.length / sampleRate;
+}
+
+/**
+ * Local BPM at each beat from the surrounding inter-beat intervals,
+ * median-smoothed over five beats so a single late hit doesn't spike it.
+ */
+export function tempoCurve(beats: number[], fallbackBpm: number): number[] {
+  if (beats.length < 2) return beats.map(() => Math.round(fallbackBpm * 10) / 10);
+
+  const intervals = beats.map((t, i) =>
+    i < beats.length - 1 ? beats[i + 1] - t : t - beats[i - 1],
+  );
+
+  return intervals.map((_, i) => {
+    const window = intervals
+      .slice(Math.max(0, i - 2), i + 3)
+      .sort((a, b) => a - b);
+    const median = window[Math.floor(window.length / 2)];
+    return Math.round((60 / median) * 10) / 10;
+  });
 }
 
 /**
  * Mix an AudioBuffer down to a mono Float32Array.
  */
 function mixToMono(buffer: AudioBuffer): Float32Array {
-  if (buffer.numberOfChannels === 1) {
-    return buffer.getChannelData(0);
+  const channels: Float32Array[] = [];
+  for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+    channels.push(buffer.getChannelData(ch));
+  }
+  return mixChannels(channels);
+}
+
+/**
+ * Average raw channel data down to mono. Used directly by the analysis
+ * worker, which receives channel copies rather than an AudioBuffer.
+ */
+export function mixChannels(channelData: Float32Array[]): Float32Array {
+  if (channelData.length === 1) {
+    return channelData[0];
   }
 
-  const length = buffer.length;
+  const length = channelData[0]?.length ?? 0;
   const mono = new Float32Array(length);
-  const channels = buffer.numberOfChannels;
+  const channels = channelData.length;
 
   for (let ch = 0; ch < channels; ch++) {
-    const data = buffer.getChannelData(ch);
+    const data = channelData[ch];
     for (let i = 0; i < length; i++) {
       mono[i] += data[i];
     }
@@ -75,8 +342,8 @@ function mixToMono(buffer: AudioBuffer): Float32Array {
  * Returns an array of energy values, one per hop.
  */
 function computeOnsets(samples: Float32Array, sampleRate: number): Float32Array {
-  const windowSize = 1024;
-  const hopSize = 512;
+  const windowSize = WINDOW_SIZE;
+  const hopSize = HOP_SIZE;
   const numFrames = Math.floor((samples.length - windowSize) / hopSize);
 
   if (numFrames <= 0) {
@@ -125,10 +392,21 @@ function computeOnsets(samples: Float32Array, sampleRate: number): Float32Array
  * Estimate BPM using autocorrelation of the onset detection function.
  * Searches for the strongest periodic peak in the 60–180 BPM range.
  */
-function estimateBPM(onsets: Float32Array, sampleRate: number): number {
-  const hopSize = (onsets as unknown as { _hopSize: number })._hopSize || 512;
-  const hopRate = sampleRate / hopSize; // onsets per second
+function estimateBPM(
+  onsets: Float32Array,
+  sampleRate: number,
+  onProgress?: ProgressCallback,
+): number {
+  const hopSize = (onsets as unknown as { _hopSize: number })._hopSize || HOP_SIZE;
+  return tempoFromOnsets(onsets, sampleRate / hopSize, onProgress);
+}
 
+/**
+ * The BPM an onset function is most periodic at, with `hopRate` onset
+ * frames per second. Shared by the song analysis and the live tracker,
+ * which runs it over a sliding window of recent onsets.
+ */
+export function tempoFromOnsets(onsets: Float32Array, hopRate: number, onProgress?: ProgressCallback): number {
   // BPM range to search
   const minBPM = 60;
   const maxBPM = 180;
@@ -154,6 +432,8 @@ function estimateBPM(onsets: Float32Array, sampleRate: number): number {
       bestCorr = corr;
       bestLag = lag;
     }
+
+    if ((lag - minLag) % 8 === 0) onProgress?.((lag - minLag) / (maxLag - minLag));
   }
 
   // Convert lag back to BPM
@@ -165,3 +445,247 @@ function estimateBPM(onsets: Float32Array, sampleRate: number): number {
 
   return bpm;
 }
+
+/**
+ * Convert an onset frame index to seconds. A hit shows up as flux in every
+ * frame whose window straddles it, so the hit sits half a window in.
+ */
+function frameToTime(frame: number, sampleRate: number): number {
+  return (frame * HOP_SIZE + WINDOW_SIZE / 2) / sampleRate;
+}
+
+function timeToFrame(time: number, sampleRate: number): number {
+  return (time * sampleRate - WINDOW_SIZE / 2) / HOP_SIZE;
+}
+
+/**
+ * Estimate where the beats fall within one beat period.
+ * Slides a comb of the detected period across the onset function and
+ * keeps the offset that collects the most flux. Returns seconds.
+ */
+function estimatePhase(onsets: Float32Array, sampleRate: number, bpm: number): number {
+  if (onsets.length === 0) return 0;
+
+  const hopRate = sampleRate / HOP_SIZE;
+  const period = hopRate * (60 / bpm); // frames per beat
+
+  let bestPhase = 0;
+  let bestScore = -Infinity;
+
+  for (let phase = 0; phase < period; phase++) {
+    let score = 0;
+    for (let f = phase; f < onsets.length; f += period) {
+      const i = Math.round(f);
+      // Neighbours count half so a hit split across two frames still scores
+      score += onsets[i];
+      if (i > 0) score += onsets[i - 1] * 0.5;
+      if (i + 1 < onsets.length) score += onsets[i + 1] * 0.5;
+    }
+
+    if (score > bestScore) {
+      bestScore = score;
+      bestPhase = phase;
+    }
+  }
+
+  return frameToTime(bestPhase, sampleRate);
+}
+
+/**
+ * Score each beat by the peak onset strength near it, normalized so a
+ * typical strong hit (95th percentile) reads as 1.
+ */
+function scoreBeats(beats: number[], onsets: Float32Array, sampleRate: number): number[] {
+  if (onsets.length === 0) return beats.map(() => 1);
+
+  const raw = beats.map((t) => {
+    const center = Math.round(timeToFrame(t, sampleRate));
+    let peak = 0;
+    for (let i = center - 2; i <= center + 2; i++) {
+      if (i >= 0 && i < onsets.length && onsets[i] > peak) peak = onsets[i];
+    }
+    return peak;
+  });
+
+  const sorted = [...raw].sort((a, b) => a - b);
+  const ref = sorted[Math.floor(sorted.length * 0.95)] || 0;
+  if (ref <= 0) return raw.map(() => 0);
+
+  return raw.map((v) => Math.min(1, v / ref));
+}
+
+/**
+ * Accent strength of each beat: low-passed (kick/bass) energy just after
+ * the beat, blended with its onset confidence. Bar starts tend to carry
+ * the heaviest low end, so this is what downbeat detection keys on.
+ */
+function accentBeats(
+  beats: number[],
+  confidence: number[],
+  samples: Float32Array,
+  sampleRate: number,
+): number[] {
+  // One-pole low-pass around 150 Hz
+  const alpha = 1 - Math.exp((-2 * Math.PI * 150) / sampleRate);
+  const span = Math.floor(sampleRate * 0.1);
+
+  const bass = beats.map((t) => {
+    const start = Math.max(0, Math.floor(t * sampleRate));
+    const end = Math.min(samples.length, start + span);
+    // Warm the filter up on the samples just before the beat
+    let y = 0;
+    for (let i = Math.max(0, start - span); i < start; i++) y += alpha * (samples[i] - y);
+    let energy = 0;
+    for (let i = start; i < end; i++) {
+      y += alpha * (samples[i] - y);
+      energy += y * y;
+    }
+    return end > start ? energy / (end - start) : 0;
+  });
+
+  const maxBass = Math.max(...bass, 0);
+  return bass.map((b, i) => 0.5 * (maxBass > 0 ? b / maxBass : 0) + 0.5 * (confidence[i] ?? 0));
+}
+
+/**
+ * Find the meter and bar phase whose downbeats stand out most from the
+ * other beats. 4/4 wins unless 3/4 is clearly stronger, since a weak
+ * waltz reading is the more common false positive.
+ */
+function detectDownbeats(accents: number[]): { meter: number; downbeats: number[] } {
+  let best = { meter: 4, phase: 0, contrast: -Infinity };
+
+  for (const meter of [4, 3]) {
+    if (accents.length < meter * 2) continue;
+
+    for (let phase = 0; phase < meter; phase++) {
+      let on = 0, onCount = 0, off = 0, offCount = 0;
+      for (let i = 0; i < accents.length; i++) {
+        if ((i - phase) % meter === 0) { on += accents[i]; onCount++; }
+        else { off += accents[i]; offCount++; }
+      }
+      const contrast = on / onCount - off / offCount - (meter === 4 ? 0 : WALTZ_MARGIN);
+      if (contrast > best.contrast) {
+        best = { meter, phase, contrast };
+      }
+    }
+  }
+
+  const downbeats: number[] = [];
+  for (let i = best.phase; i < accents.length; i += best.meter) downbeats.push(i);
+
+  return { meter: best.meter, downbeats };
+}
+
+/**
+ * Split the song into sections at bars where the loudness and onset
+ * density change the most, then label each section by its energy.
+ * Boundaries always fall on downbeats and sections are at least
+ * MIN_SECTION_BARS long.
+ */
+function segmentSections(
+  beats: number[],
+  confidence: number[],
+  downbeats: number[],
+  samples: Float32Array,
+  sampleRate: number,
+  duration: number,
+): Section[] {
+  const bars = downbeats.length;
+  if (bars < MIN_SECTION_BARS * 2) {
+    return [{ label: 'verse', startBeat: 0, start: 0, end: duration, energy: 1 }];
+  }
+
+  // Per-bar features: RMS loudness and mean onset confidence
+  const loudness: number[] = [];
+  const density: number[] = [];
+  for (let b = 0; b < bars; b++) {
+    const first = downbeats[b];
+    const last = b + 1 < bars ? downbeats[b + 1] : beats.length;
+    const start = Math.floor(beats[first] * sampleRate);
+    const end = Math.min(samples.length, Math.floor((beats[last] ?? duration) * sampleRate));
+    let sum = 0;
+    for (let i = start; i < end; i++) sum += samples[i] * samples[i];
+    loudness.push(end > start ? Math.sqrt(sum / (end - start)) : 0);
+
+    let conf = 0;
+    for (let i = first; i < last; i++) conf += confidence[i] ?? 0;
+    density.push(last > first ? conf / (last - first) : 0);
+  }
+  const maxLoud = Math.max(...loudness) || 1;
+  const features = loudness.map((l, b) => [l / maxLoud, density[b]]);
+
+  // Novelty: difference between the mean features just before and after each bar
+  const span = MIN_SECTION_BARS;
+  const novelty = new Array<number>(bars).fill(0);
+  for (let b = span; b <= bars - span; b++) {
+    let diff = 0;
+    for (let k = 0; k < features[0].length; k++) {
+      let before = 0, after = 0;
+      for (let j = 0; j < span; j++) {
+        before += features[b - span + j][k];
+        after += features[b + j][k];
+      }
+      diff += Math.abs(after - before) / span;
+    }
+    novelty[b] = diff;
+  }
+
+  // Pick the strongest peaks above the noise, keeping sections long enough
+  const mean = novelty.reduce((a, v) => a + v, 0) / bars;
+  const std = Math.sqrt(novelty.reduce((a, v) => a + (v - mean) ** 2, 0) / bars);
+  const candidates = novelty
+    .map((v, b) => ({ v, b }))
+    .filter(({ v, b }) =>
+      v > Math.max(MIN_NOVELTY, mean + 0.5 * std) &&
+      v >= (novelty[b - 1] ?? 0) &&
+      v >= (novelty[b + 1] ?? 0))
+    .sort((a, b) => b.v - a.v);
+
+  const boundaries = [0];
+  for (const { b } of candidates) {
+    if (boundaries.every((x) => Math.abs(x - b) >= MIN_SECTION_BARS) && bars - b >= MIN_SECTION_BARS) {
+      boundaries.push(b);
+    }
+  }
+  boundaries.sort((a, b) => a - b);
+
+  // Section loudness from the bars it spans; the song's mean is over every bar
+  const energies = boundaries.map((b, i) => {
+    const end = boundaries[i + 1] ?? bars;
+    let sum = 0;
+    for (let j = b; j < end; j++) sum += features[j][0];
+    return sum / (end - b);
+  });
+  const maxEnergy = Math.max(...energies) || 1;
+  const meanEnergy = features.reduce((a, f) => a + f[0], 0) / bars || 1;
+
+  return boundaries.map((b, i) => {
+    const startBeat = i === 0 ? 0 : downbeats[b];
+    const next = boundaries[i + 1];
+    return {
+      label: labelSection(energies[i] / meanEnergy, energies[i] * maxLoud, i, boundaries.length),
+      startBeat,
+      start: i === 0 ? 0 : beats[startBeat],
+      end: next === undefined ? duration : beats[downbeats[next]],
+      energy: Math.round((energies[i] / maxEnergy) * 100) / 100,
+    };
+  });
+}
+
+/**
+ * Name a section from its loudness over the song's mean (`lift`), its
+ * absolute loudness (RMS) and its position. Quiet edges are intro/outro,
+ * quiet middles are breakdowns; only sections well above the mean are
+ * choruses or drops, and a song in one section is a verse.
+ */
+function labelSection(lift: number, rms: number, index: number, count: number): SectionLabel {
+  if (count === 1) return 'verse';
+  const quiet = lift < QUIET_DIP || rms < SILENT_RMS;
+  if (quiet && index === 0) return 'intro';
+  if (quiet && index === count - 1) return 'outro';
+  if (quiet) return 'breakdown';
+  if (lift >= DROP_LIFT) return 'drop';
+  if (lift >= CHORUS_LIFT) return 'chorus';
+  return 'verse';
+}
@@ -0,0 +1,104 @@
+/**
+ * Precomputed beat maps.
+ * `npm run analyze` writes the analysis for a song to a JSON file next to
+ * the audio (YESSRO.m4a → YESSRO.beats.json). When that file is present
+ * the player skips live detection entirely, so startup is instant and
+ * every device cuts to exactly the same beats.
+ */
+
+import type { BeatData, SectionLabel } from './beat-detect';
+
+/** Bump when the BeatData shape changes so stale maps are ignored */
+export const BEAT_MAP_VERSION = 1;
+
+export interface BeatMap extends BeatData {
+  version: number;
+}
+
+/** How far a map's BPM can sit from a forced one and still count as analyzed at it (maps round to 0.1) */
+const BPM_TOLERANCE = 0.05;
+
+const SECTION_LABELS = new Set<unknown>(['intro', 'verse', 'chorus', 'drop', 'breakdown', 'outro'] satisfies SectionLabel[]);
+
+/** Path of the beat map that belongs to a song file */
+export function beatMapPath(songPath: string): string {
+  const dot = songPath.lastIndexOf('.');
+  const base = dot > songPath.lastIndexOf('/') ? songPath.slice(0, dot) : songPath;
+  return `${base}.beats.json`;
+}
+
+/** Wrap analysis results for writing, rounding times to the millisecond */
+export function toBeatMap(data: BeatData): BeatMap {
+  const ms = (t: number) => Math.round(t * 1000) / 1000;
+  const cents = (v: number) => Math.round(v * 100) / 100;
+
+  return {
+    version: BEAT_MAP_VERSION,
+    bpm: data.bpm,
+    beats: data.beats.map(ms),
+    confidence: data.confidence.map(cents),
+    tempo: data.tempo,
+    meter: data.meter,
+    downbeats: data.downbeats,
+    sections: data.sections.map((s) => ({ ...s, start: ms(s.start), end: ms(s.end) })),
+    events: {
+      kick: data.events.kick.map(ms),
+      snare: data.events.snare.map(ms),
+      hat: data.events.hat.map(ms),
+    },
+  };
+}
+
+/**
+ * Fetch the precomputed beat map for a song.
+ * Resolves null when there isn't one (or it's from an older version, or
+ * malformed, or was analyzed at another tempo than the song's forced
+ * `bpm`), so callers can fall back to live detection.
+ */
+export async function loadBeatMap(songPath: string, bpm?: number): Promise<BeatData | null> {
+  try {
+    const res = await fetch(beatMapPath(songPath));
+    if (!res.ok) return null;
+    const map = (await res.json()) as Partial<BeatMap>;
+    if (map.version !== BEAT_MAP_VERSION || !isBeatData(map)) return null;
+    if (bpm && Math.abs(map.bpm - bpm) > BPM_TOLERANCE) {
+      console.warn(`Beat map for ${songPath} is at ${map.bpm} BPM, not ${bpm}; detecting beats again`);
+      return null;
+    }
+    const { version: _version, ...data } = map as BeatMap;
+    return data;
+  } catch {
+    return null;
+  }
+}
+
+/** Check every field of a parsed map, down to the indices pointing into `beats` */
+function isBeatData(map: Partial<BeatData>): map is BeatData {
+  const { bpm, beats, confidence, tempo, meter, downbeats, sections, events } = map;
+  if (!isPositive(bpm) || !isTimes(beats) || beats.length === 0) return false;
+  const isIndex = (i: unknown) => Number.isInteger(i) && (i as number) >= 0 && (i as number) < beats.length;
+  return (
+    isNumbers(confidence) && confidence.length === beats.length &&
+    isNumbers(tempo) && tempo.length === beats.length &&
+    Number.isInteger(meter) && isPositive(meter) &&
+    Array.isArray(downbeats) && downbeats.every(isIndex) &&
+    Array.isArray(sections) && sections.length > 0 &&
+    sections.every((s) =>
+      !!s && SECTION_LABELS.has(s.label) && isIndex(s.startBeat) &&
+      Number.isFinite(s.start) && Number.isFinite(s.end) && s.end >= s.start && Number.isFinite(s.energy)) &&
+    !!events && isTimes(events.kick) && isTimes(events.snare) && isTimes(events.hat)
+  );
+}
+
+function isPositive(v: unknown): v is number {
+  return typeof v === 'number' && Number.isFinite(v) && v > 0;
+}
+
+function isNumbers(v: unknown): v is number[] {
+  return Array.isArray(v) && v.every(Number.isFinite);
+}
+
+/** Song times: finite, not negative, in order */
+function isTimes(v: unknown): v is number[] {
+  return isNumbers(v) && v.every((t, i) => t >= 0 && (i === 0 || t >= v[i - 1]));
+}
@@ -0,0 +1,56 @@
+/**
+ * Main-thread side of the beat analysis worker.
+ * Same BeatData contract as `detectBeats`, but the heavy lifting happens
+ * in beat-worker.ts. Falls back to detecting on the main thread when
+ * workers aren't available.
+ */
+
+import { detectBeats, type AnalysisOptions, type BeatData, type ProgressCallback } from './beat-detect';
+import type { BeatWorkerRequest, BeatWorkerResponse } from './beat-worker';
+
+export function detectBeatsInWorker(
+  audioBuffer: AudioBuffer,
+  options: AnalysisOptions = {},
+  onProgress?: ProgressCallback,
+): Promise<BeatData> {
+  if (typeof Worker === 'undefined') {
+    return Promise.resolve(detectBeats(audioBuffer, options));
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./beat-worker.ts', import.meta.url), { type: 'module' });
+
+    // Copy each channel so the copies can be transferred — the AudioBuffer
+    // keeps its own data for playback
+    const channels: Float32Array[] = [];
+    for (let ch = 0; ch < audioBuffer.numberOfChannels; ch++) {
+      channels.push(new Float32Array(audioBuffer.getChannelData(ch)));
+    }
+
+    worker.onmessage = (e: MessageEvent<BeatWorkerResponse>) => {
+      const msg = e.data;
+      if (msg.type === 'progress') {
+        onProgress?.(msg.progress);
+        return;
+      }
+      worker.terminate();
+      if (msg.type === 'done') resolve(msg.data);
+      else reject(new Error(msg.message));
+    };
+
+    // Worker failed to even load — analyze here instead of giving up
+    worker.onerror = (e) => {
+      e.preventDefault();
+      worker.terminate();
+      console.warn('Beat worker failed, detecting on main thread:', e.message);
+      try {
+        resolve(detectBeats(audioBuffer, options));
+      } catch (err) {
+        reject(err);
+      }
+    };
+
+    const request: BeatWorkerRequest = { channels, sampleRate: audioBuffer.sampleRate, options };
+    worker.postMessage(request, channels.map((c) => c.buffer));
+  });
+}
@@ -0,0 +1,34 @@
+/**
+ * Beat analysis worker.
+ * Receives the song's raw channel data (transferred, not copied), mixes
+ * it down and runs the full analysis off the main thread, posting
+ * progress as it goes so the loading screen stays alive.
+ */
+
+import { analyzeMono, mixChannels, type AnalysisOptions, type BeatData } from './beat-detect';
+
+export interface BeatWorkerRequest {
+  channels: Float32Array[];
+  sampleRate: number;
+  options: AnalysisOptions;
+}
+
+export type BeatWorkerResponse =
+  | { type: 'progress'; progress: number }
+  | { type: 'done'; data: BeatData }
+  | { type: 'error'; message: string };
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (e: MessageEvent<BeatWorkerRequest>) => {
+  const { channels, sampleRate, options } = e.data;
+  const post = (msg: BeatWorkerResponse) => ctx.postMessage(msg);
+
+  try {
+    const mono = mixChannels(channels);
+    const data = analyzeMono(mono, sampleRate, options, (progress) => post({ type: 'progress', progress }));
+    post({ type: 'done', data });
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -1,10 +1,35 @@
+import type { SectionLabel } from './beat-detect';
+import type { LayoutName } from './layouts';
+import type { Scene } from './scenes';
+import type { TransitionName } from './transitions';
+
+export interface SectionProfile {
+  /** Cut pattern for this section (falls back to `cutWeights`) */
+  cutWeights?: [number, number][];
+  /** FX intensity 0–1: chance that overlays reshuffle on each cut */
+  fx: number;
+}
+
 export const config = {
   /** Set to a number to force a specific BPM (bypasses auto-detection) */
   bpmOverride: null as number | null,
 
-  /** Offset in seconds — shifts the beat grid forward/back */
+  /** Offset in seconds — shifts the detected beat grid forward/back */
   beatOffset: 0,
 
+  /** Seconds each nudge key shifts the beat grid during playback */
+  nudgeStep: 0.01,
+
+  /** A pause this long (seconds) between taps starts a new tap tempo */
+  tapTimeout: 2,
+
+  /**
+   * Beat tracking strategy:
+   * 'dynamic' follows tempo drift and changes (live takes, ramps),
+   * 'grid' lays a perfectly even grid at one BPM.
+   */
+  beatTracking: 'dynamic' as 'dynamic' | 'grid',
+
   /** Min beats to hold a clip before cutting */
   minBeats: 2,
 
@@ -23,12 +48,97 @@ export const config = {
     [8, 2],   // two bars — let it breathe
   ] as [number, number][],
 
+  /**
+   * Weighted clip transitions — each [transition, weight, beats] triple.
+   * `beats` is how long the transition runs (a fraction of a beat is fine);
+   * hard cuts stay the norm so the soft ones read as accents.
+   */
+  transitionWeights: [
+    ['cut',       60, 0],
+    ['crossfade', 12, 0.5],
+    ['dip',        6, 0.25],
+    ['wipe',       8, 0.5],
+    ['slice',      8, 0.25],
+    ['luma',       6, 1],
+  ] as [TransitionName, number, number][],
+
+  /**
+   * Per-section edit intensity. High-energy sections cut faster and
+   * reshuffle every overlay; intros and breakdowns hold longer and calm down.
+   */
+  sectionProfiles: {
+    intro:     { cutWeights: [[4, 2], [8, 5], [16, 2]], fx: 0.35 },
+    verse:     { fx: 0.75 },
+    chorus:    { cutWeights: [[2, 4], [4, 5], [8, 1]], fx: 1 },
+    drop:      { cutWeights: [[1, 2], [2, 5], [4, 3]], fx: 1 },
+    breakdown: { cutWeights: [[8, 4], [16, 2]], fx: 0.3 },
+    outro:     { cutWeights: [[8, 3], [16, 2]], fx: 0.35 },
+  } as Record<SectionLabel, SectionProfile>,
+
+  /** Snap bar-length holds (multiples of the meter) to end on a downbeat */
+  barAlignCuts: true,
+
+  /** Beats below this onset confidence (0–1) are weak spots for a cut */
+  minCutConfidence: 0.2,
+
+  /** How many beats a cut may slip forward looking for a confident beat */
+  maxCutSlip: 1,
+
   /** How many clips to randomly select per session */
   clipCount: 25,
 
-  /** Path to the song file in public/ */
+  /**
+   * Video lane layout: 'single', 'split' (side by side, stacked in
+   * portrait), 'quad' (2×2) or 'pip' (picture-in-picture). Overridden by
+   * `?layout=`, switchable at runtime with L.
+   */
+  layout: 'single' as LayoutName,
+
+  /**
+   * Starter FX scenes (Shift+1, Shift+2, …) until scenes are saved from
+   * the fx-dialog. Each effect listed is switched on with the params it
+   * pins; unlisted effects go off.
+   */
+  scenes: [
+    { name: 'Default', fx: { track: {}, threshold: {}, dither: {} } },
+    { name: 'Spheres', fx: { threshold: {}, invert: {}, dither: { mode: 'sphere' } } },
+    { name: 'Grid', fx: { dither: { mode: 'grid' }, mosaic: {}, scanlines: {} } },
+    { name: 'Broadcast', fx: { track: {}, zoom: {}, scanlines: {}, timecode: {} } },
+    { name: 'Strobe', fx: { edge: {}, invert: {}, strobe: {} } },
+  ] as Scene[],
+
+  /**
+   * Step to the next scene automatically: 'section' on each new section
+   * of the FX lane, a number every that many FX-lane cuts, or null to
+   * only change scenes on request.
+   */
+  sceneCycle: null as 'section' | number | null,
+
+  /** FX pad buttons per page on mobile (the pad is a 2-column grid) */
+  padPageSize: 4,
+
+  /** Path to the playlist manifest in public/ (songs play in order) */
+  playlistPath: '/playlist.json',
+
+  /** Song to play when there's no playlist manifest */
   songPath: '/YESSRO.m4a',
 
   /** Path to the clip manifest generated by convert-clips.sh */
   manifestPath: '/clips/manifest.json',
+
+  /**
+   * Where the site's clips and songs sit on the editor's disk, as a file://
+   * URL: FCPXML assets need absolute paths (`clips/…` and the song path
+   * are resolved against it). Relink in the NLE if they live elsewhere.
+   */
+  exportMediaRoot: 'file:///Users/Shared/beat-cutter/',
+
+  /** Frame rate for exports: rendered video, and edit decision list (EDL / FCPXML) timecode */
+  exportFps: 30,
+
+  /** Height of rendered video exports (width follows the app's aspect ratio) */
+  renderHeight: 1080,
+
+  /** Video bitrate for rendered exports (bits/s) */
+  renderBitrate: 8_000_000,
 };
@@ -9,32 +9,65 @@
  * Shape (tall-rect, cross, circle) is also randomized per swap.
  */
 
+import { getSampler, type FrameSubscription } from './frame-sampler';
+import { defaults, type ParamSchema, type ParamValues } from './params';
 import type { VideoPlayer } from './player';
-
-const SAMPLE_SCALE = 0.12;
-
-/** 8×8 Bayer threshold matrix (normalized 0–1) */
-const BAYER8 = [
-   0/64,  48/64,  12/64,  60/64,   3/64,  51/64,  15/64,  63/64,
-  32/64,  16/64,  44/64,  28/64,  35/64,  19/64,  47/64,  31/64,
-   8/64,  56/64,   4/64,  52/64,  11/64,  59/64,   7/64,  55/64,
-  40/64,  24/64,  36/64,  20/64,  43/64,  27/64,  39/64,  23/64,
-   2/64,  50/64,  14/64,  62/64,   1/64,  49/64,  13/64,  61/64,
-  34/64,  18/64,  46/64,  30/64,  33/64,  17/64,  45/64,  29/64,
-  10/64,  58/64,   6/64,  54/64,   9/64,  57/64,   5/64,  53/64,
-  42/64,  26/64,  38/64,  22/64,  41/64,  25/64,  37/64,  21/64,
-];
+import type { Random } from './random';
+
+export const DITHER_PARAMS = {
+  /** Dither cells per pixel of the pane — lower is chunkier */
+  resolution: { type: 'number', label: 'Resolution', min: 0.04, max: 0.3, step: 0.01, default: 0.12 },
+  /** Mid tone: neon-boosted from the clip, or a fixed color */
+  tone: { type: 'select', label: 'Mid tone', options: ['sampled', 'fixed'], default: 'sampled' },
+  color: { type: 'color', label: 'Fixed color', default: '#ff32c8' },
+  /** Scales each shuffle's warp strength in 'warp' mode */
+  warp: { type: 'number', label: 'Warp amount', min: 0, max: 2, step: 0.05, default: 1 },
+} satisfies ParamSchema;
+/** Size of the grid the clip's color is averaged from */
+const COLOR_SAMPLE = 16;
 
 type DitherMode = 'flat' | 'warp' | 'mask' | 'grid' | 'sphere';
 type ShapeMode = 'tall-rect' | 'cross' | 'circle';
+/** x, y, w, h in pane pixels */
+type Rect = [number, number, number, number];
+
+/** Everything a shuffle picks — recorded per cut for replay */
+export interface DitherState {
+  mode: DitherMode;
+  shape: ShapeMode;
+  ditherOnLeft: boolean;
+  warp: { x: number; y: number; strength: number };
+  grid: { cols: number; rows: number };
+  sphereCount: number;
+  masks: Rect[];
+  knockout: Rect[];
+}
 const DITHER_MODES: DitherMode[] = ['flat', 'warp', 'mask', 'grid', 'sphere'];
 const SHAPE_MODES: ShapeMode[] = ['tall-rect', 'cross', 'circle'];
 
+/** Whether a recorded state (from a take file) can be restored */
+export function isDitherState(state: unknown): state is DitherState {
+  const s = state as Partial<DitherState> | null;
+  const isRects = (v: unknown) =>
+    Array.isArray(v) && v.every((r) => Array.isArray(r) && r.length === 4 && r.every(Number.isFinite));
+  const isCount = (v: unknown, min = 0) => Number.isInteger(v) && (v as number) >= min;
+  return !!s && typeof s === 'object' &&
+    DITHER_MODES.includes(s.mode!) && SHAPE_MODES.includes(s.shape!) &&
+    typeof s.ditherOnLeft === 'boolean' &&
+    !!s.warp && Number.isFinite(s.warp.x) && Number.isFinite(s.warp.y) && Number.isFinite(s.warp.strength) &&
+    !!s.grid && isCount(s.grid.cols, 1) && isCount(s.grid.rows, 1) &&
+    isCount(s.sphereCount) && isRects(s.masks) && isRects(s.knockout);
+}
+
 export class DitherOverlay {
   private canvas: HTMLCanvasElement;
   private ctx: CanvasRenderingContext2D;
-  private offscreen: HTMLCanvasElement;
-  private offCtx: CanvasRenderingContext2D;
+  /** Dither-pass cells, sampleW × sampleH */
+  private cells: FrameSubscription;
+  /** A small RGB grid for the mid-tone color */
+  private colors: FrameSubscription;
+  private sampleW = 1;
+  private sampleH = 1;
   private player: VideoPlayer;
   private container: HTMLElement;
   private visible = false;
@@ -46,7 +79,7 @@ export class DitherOverlay {
   private shape: ShapeMode = 'tall-rect';
 
   // Neon mid-tone color (sampled once per clip)
-  private midColor = 'rgb(255,50,200)';
+  private sampledColor = 'rgb(255,50,200)';
   private needsColorSample = true;
 
   // Warp params
@@ -55,9 +88,11 @@ export class DitherOverlay {
   private warpStrength = 0.5;
 
   // Mask params (for mask mode — sparser)
+  private maskRects: Rect[] = [];
   private masks: Path2D[] = [];
 
   // Knockout clip — always applied so dither never fills the full pane
+  private knockoutRects: Rect[] = [];
   private knockoutClip: Path2D | null = null;
 
   // Grid params
@@ -69,10 +104,13 @@ export class DitherOverlay {
 
   // Side: dither on left or right (randomized per swap)
   private ditherOnLeft = false;
+  private random: Random;
+  private params = defaults(DITHER_PARAMS);
 
-  constructor(container: HTMLElement, player: VideoPlayer) {
+  constructor(container: HTMLElement, player: VideoPlayer, random: Random = Math.random) {
     this.player = player;
     this.container = container;
+    this.random = random;
 
     this.canvas = document.createElement('canvas');
     this.canvas.className = 'dither-overlay';
@@ -80,8 +118,9 @@ export class DitherOverlay {
     container.appendChild(this.canvas);
     this.ctx = this.canvas.getContext('2d')!;
 
-    this.offscreen = document.createElement('canvas');
-    this.offCtx = this.offscreen.getContext('2d', { willReadFrequently: true })!;
+    const sampler = getSampler();
+    this.cells = sampler.subscribe({ width: 1, height: 1, format: 'luma', pass: 'dither' });
+    this.colors = sampler.subscribe({ width: COLOR_SAMPLE, height: COLOR_SAMPLE, format: 'rgb' });
 
     this.resize();
     window.addEventListener('resize', this.resize);
@@ -99,18 +138,20 @@ export class DitherOverlay {
     this.canvas.style.height = ch + 'px';
     this.ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
 
-    this.offscreen.width = Math.max(1, Math.floor(hw * SAMPLE_SCALE));
-    this.offscreen.height = Math.max(1, Math.floor(ch * SAMPLE_SCALE));
+    this.sampleW = Math.max(1, Math.floor(hw * this.params.resolution));
+    this.sampleH = Math.max(1, Math.floor(ch * this.params.resolution));
+    this.cells.update({ width: this.sampleW, height: this.sampleH });
+    this.colors.update({ aspect: this.sampleW / this.sampleH });
   };
 
   /** On each clip swap: pick random mode, shape, side, and params */
   shuffle() {
-    this.mode = DITHER_MODES[Math.floor(Math.random() * DITHER_MODES.length)];
-    this.shape = SHAPE_MODES[Math.floor(Math.random() * SHAPE_MODES.length)];
+    this.mode = DITHER_MODES[Math.floor(this.random() * DITHER_MODES.length)];
+    this.shape = SHAPE_MODES[Math.floor(this.random() * SHAPE_MODES.length)];
     this.needsColorSample = true;
 
     // Randomly swap which side dither is on
-    this.ditherOnLeft = Math.random() < 0.5;
+    this.ditherOnLeft = this.random() < 0.5;
     this.container.classList.toggle('dither-left', this.ditherOnLeft);
 
     const cw = this.container.clientWidth;
@@ -121,22 +162,67 @@ export class DitherOverlay {
     this.generateKnockout(hw, ch);
 
     if (this.mode === 'warp') {
-      this.warpFocusX = 0.2 + Math.random() * 0.6;
-      this.warpFocusY = 0.2 + Math.random() * 0.6;
-      this.warpStrength = 0.4 + Math.random() * 0.8;
+      this.warpFocusX = 0.2 + this.random() * 0.6;
+      this.warpFocusY = 0.2 + this.random() * 0.6;
+      this.warpStrength = 0.4 + this.random() * 0.8;
     }
     if (this.mode === 'mask') {
       this.generateMasks(hw, ch);
     }
     if (this.mode === 'grid') {
-      this.gridCols = 2 + Math.floor(Math.random() * 2); // 2–3
-      this.gridRows = 2 + Math.floor(Math.random() * 2); // 2–3
+      this.gridCols = 2 + Math.floor(this.random() * 2); // 2–3
+      this.gridRows = 2 + Math.floor(this.random() * 2); // 2–3
     }
     if (this.mode === 'sphere') {
-      this.sphereCount = 2 + Math.floor(Math.random() * 3); // 2–4
+      this.sphereCount = 2 + Math.floor(this.random() * 3); // 2–4
     }
   }
 
+  snapshot(): DitherState {
+    return {
+      mode: this.mode,
+      shape: this.shape,
+      ditherOnLeft: this.ditherOnLeft,
+      warp: { x: this.warpFocusX, y: this.warpFocusY, strength: this.warpStrength },
+      grid: { cols: this.gridCols, rows: this.gridRows },
+      sphereCount: this.sphereCount,
+      masks: this.maskRects,
+      knockout: this.knockoutRects,
+    };
+  }
+
+  restore(state: DitherState) {
+    this.mode = state.mode;
+    this.shape = state.shape;
+    this.needsColorSample = true;
+    this.ditherOnLeft = state.ditherOnLeft;
+    this.container.classList.toggle('dither-left', this.ditherOnLeft);
+    this.warpFocusX = state.warp.x;
+    this.warpFocusY = state.warp.y;
+    this.warpStrength = state.warp.strength;
+    this.gridCols = state.grid.cols;
+    this.gridRows = state.grid.rows;
+    this.sphereCount = state.sphereCount;
+    this.setMasks(state.masks);
+    this.setKnockout(state.knockout);
+  }
+
+  /** Sample a different lane's video from now on */
+  setPlayer(player: VideoPlayer) {
+    this.player = player;
+  }
+
+  setParams(values: ParamValues<typeof DITHER_PARAMS>) {
+    const resized = values.resolution !== this.params.resolution;
+    this.params = values;
+    if (resized) this.resize();
+  }
+
+  /** The element it draws into, for the layer stack */
+  get element(): HTMLElement {
+    return this.canvas;
+  }
+
   toggle(): boolean {
     this.visible = !this.visible;
     this.canvas.style.display = this.visible ? 'block' : 'none';
@@ -156,16 +242,19 @@ export class DitherOverlay {
     cancelAnimationFrame(this.rafId);
     window.removeEventListener('resize', this.resize);
     this.container.classList.remove('dither-left');
+    this.cells.unsubscribe();
+    this.colors.unsubscribe();
     this.canvas.remove();
   }
 
   // ─── Color sampling ──────────────────────────────────────────
 
-  private sampleColor(d: Uint8ClampedArray, len: number) {
+  private sampleColor(d: Uint8Array, len: number) {
     let rSum = 0, gSum = 0, bSum = 0;
-    const step = 16;
+    // Already a small grid, so every pixel counts
+    const step = 1;
     let count = 0;
-    for (let i = 0; i < len; i += 4 * step) {
+    for (let i = 0; i < len; i += 3 * step) {
       rSum += d[i];
       gSum += d[i + 1];
       bSum += d[i + 2];
@@ -211,58 +300,72 @@ export class DitherOverlay {
     const mr = Math.round(hue2rgb(p2, q2, h + 1/3) * 255);
     const mg = Math.round(hue2rgb(p2, q2, h) * 255);
     const mb = Math.round(hue2rgb(p2, q2, h - 1/3) * 255);
-    this.midColor = `rgb(${mr},${mg},${mb})`;
+    this.sampledColor = `rgb(${mr},${mg},${mb})`;
+  }
+
+  /** The mid tone to draw with */
+  private get midColor(): string {
+    return this.params.tone === 'fixed' ? this.params.color : this.sampledColor;
   }
 
   // ─── Mask generation ─────────────────────────────────────────
 
   private generateMasks(hw: number, ch: number) {
-    this.masks = [];
-    const count = 6 + Math.floor(Math.random() * 6); // 6–11 rectangles
+    const rects: Rect[] = [];
+    const count = 6 + Math.floor(this.random() * 6); // 6–11 rectangles
     for (let m = 0; m < count; m++) {
-      const path = new Path2D();
       // Varied sizes — some large, some small, mostly covering the canvas
-      const w = hw * (0.15 + Math.random() * 0.5);
-      const h = ch * (0.1 + Math.random() * 0.45);
-      const x = Math.random() * (hw - w * 0.3) - w * 0.15; // allow slight overflow
-      const y = Math.random() * (ch - h * 0.3) - h * 0.15;
-      path.rect(x, y, w, h);
-      this.masks.push(path);
+      const w = hw * (0.15 + this.random() * 0.5);
+      const h = ch * (0.1 + this.random() * 0.45);
+      const x = this.random() * (hw - w * 0.3) - w * 0.15; // allow slight overflow
+      const y = this.random() * (ch - h * 0.3) - h * 0.15;
+      rects.push([x, y, w, h]);
     }
+    this.setMasks(rects);
+  }
+
+  private setMasks(rects: Rect[]) {
+    this.maskRects = rects;
+    this.masks = rects.map(([x, y, w, h]) => {
+      const path = new Path2D();
+      path.rect(x, y, w, h);
+      return path;
+    });
   }
 
   // ─── Knockout generation (always applied) ──────────────────────
 
   private generateKnockout(hw: number, ch: number) {
-    const clip = new Path2D();
+    const rects: Rect[] = [];
     // 3–6 random rectangles covering ~50–75% of the pane
-    const count = 3 + Math.floor(Math.random() * 4);
+    const count = 3 + Math.floor(this.random() * 4);
     for (let i = 0; i < count; i++) {
-      const w = hw * (0.25 + Math.random() * 0.55);
-      const h = ch * (0.2 + Math.random() * 0.5);
-      const x = Math.random() * (hw - w * 0.5) - w * 0.1;
-      const y = Math.random() * (ch - h * 0.5) - h * 0.1;
-      clip.rect(x, y, w, h);
+      const w = hw * (0.25 + this.random() * 0.55);
+      const h = ch * (0.2 + this.random() * 0.5);
+      const x = this.random() * (hw - w * 0.5) - w * 0.1;
+      const y = this.random() * (ch - h * 0.5) - h * 0.1;
+      rects.push([x, y, w, h]);
     }
+    this.setKnockout(rects);
+  }
+
+  private setKnockout(rects: Rect[]) {
+    this.knockoutRects = rects;
+    const clip = new Path2D();
+    for (const [x, y, w, h] of rects) clip.rect(x, y, w, h);
     this.knockoutClip = clip;
   }
 
   // ─── Dither computation ──────────────────────────────────────
 
   /**
-   * Returns parallel arrays: cellLevel[i] = 0 (black), 1 (mid), 2 (white)
-   * for each cell in the offscreen grid.
+   * Cell levels from the dither pass (gray 0, ½, 1): 0 (black), 1 (mid),
+   * 2 (white) for each cell in the sample grid.
    */
-  private computeDither(d: Uint8ClampedArray, ow: number, oh: number): Uint8Array {
+  private computeDither(d: Uint8Array, ow: number, oh: number): Uint8Array {
     const levels = new Uint8Array(ow * oh);
-    for (let y = 0; y < oh; y++) {
-      for (let x = 0; x < ow; x++) {
-        const i = (y * ow + x) * 4;
-        const luma = (d[i] * 0.299 + d[i + 1] * 0.587 + d[i + 2] * 0.114) / 255;
-        const bayer = BAYER8[(y & 7) * 8 + (x & 7)];
-        const dithered = luma * 2 + (bayer - 0.5);
-        levels[y * ow + x] = Math.max(0, Math.min(2, Math.round(dithered)));
-      }
+    for (let i = 0; i < levels.length; i++) {
+      levels[i] = Math.round(d[i] / 127.5);
     }
     return levels;
   }
@@ -274,33 +377,21 @@ export class DitherOverlay {
 
     const video = this.player.activeVideo;
     if (video && video.readyState >= 2) {
-      const ow = this.offscreen.width;
-      const oh = this.offscreen.height;
-
-      // Cover-fit video onto offscreen canvas
-      const vw = video.videoWidth || ow;
-      const vh = video.videoHeight || oh;
-      const canvasRatio = ow / oh;
-      const videoRatio = vw / vh;
-      let sx = 0, sy = 0, sw = vw, sh = vh;
-      if (videoRatio > canvasRatio) {
-        sw = vh * canvasRatio;
-        sx = (vw - sw) / 2;
-      } else {
-        sh = vw / canvasRatio;
-        sy = (vh - sh) / 2;
-      }
-      this.offCtx.drawImage(video, sx, sy, sw, sh, 0, 0, ow, oh);
-
-      const imageData = this.offCtx.getImageData(0, 0, ow, oh);
-      const d = imageData.data;
+      const ow = this.sampleW;
+      const oh = this.sampleH;
 
       // Sample color once per clip
       if (this.needsColorSample) {
-        this.sampleColor(d, d.length);
+        const colors = this.colors.read(video);
+        if (colors) this.sampleColor(colors, colors.length);
         this.needsColorSample = false;
       }
 
+      const d = this.cells.read(video);
+      if (!d) {
+        this.rafId = requestAnimationFrame(this.draw);
+        return;
+      }
       const levels = this.computeDither(d, ow, oh);
 
       const cw = this.container.clientWidth;
@@ -371,7 +462,7 @@ export class DitherOverlay {
   ) {
     const fx = this.warpFocusX;
     const fy = this.warpFocusY;
-    const k = this.warpStrength;
+    const k = this.warpStrength * this.params.warp;
 
     // Draw each cell individually with warped position + size
     for (let lv = 1; lv <= 2; lv++) {
@@ -1,24 +1,30 @@
 /**
  * Posterized edge-detection overlay.
- * Samples the active video, posterizes the colors to a few discrete levels,
- * then burns Sobel edges as dark outlines — screen-print / risograph look.
+ * Posterizes the active video to a few discrete levels, then burns Sobel
+ * edges in as dark outlines (one shader pass) — screen-print / risograph look.
  */
 
+import { getSampler, type FrameSampler } from './frame-sampler';
+import { defaults, type ParamSchema, type ParamValues } from './params';
 import type { VideoPlayer } from './player';
 
-const EDGE_THRESHOLD = 50;
-const SAMPLE_SCALE = 0.4;
-const POSTERIZE_LEVELS = 4;
+export const EDGE_PARAMS = {
+  /** Sobel magnitude above which an edge is burned in */
+  threshold: { type: 'number', label: 'Edge threshold', min: 0, max: 255, step: 1, default: 50 },
+  levels: { type: 'number', label: 'Posterize levels', min: 2, max: 8, step: 1, default: 4 },
+  resolution: { type: 'number', label: 'Resolution', min: 0.1, max: 1, step: 0.05, default: 0.4 },
+} satisfies ParamSchema;
 
 export class EdgeOverlay {
   private canvas: HTMLCanvasElement;
-  private ctx: CanvasRenderingContext2D;
-  private offscreen: HTMLCanvasElement;
-  private offCtx: CanvasRenderingContext2D;
+  private sampler: FrameSampler;
+  private sampleW = 0;
+  private sampleH = 0;
   private player: VideoPlayer;
   private visible = false;
   private rafId = 0;
   private running = false;
+  private params = defaults(EDGE_PARAMS);
 
   constructor(container: HTMLElement, player: VideoPlayer) {
     this.player = player;
@@ -27,10 +33,8 @@ export class EdgeOverlay {
     this.canvas.className = 'edge-overlay';
     this.canvas.style.display = 'none';
     container.appendChild(this.canvas);
-    this.ctx = this.canvas.getContext('2d')!;
 
-    this.offscreen = document.createElement('canvas');
-    this.offCtx = this.offscreen.getContext('2d', { willReadFrequently: true })!;
+    this.sampler = getSampler();
 
     this.resize();
     window.addEventListener('resize', this.resize);
@@ -46,14 +50,30 @@ export class EdgeOverlay {
     this.canvas.style.width = vw + 'px';
     this.canvas.style.height = vh + 'px';
 
-    this.offscreen.width = Math.floor(vw * SAMPLE_SCALE);
-    this.offscreen.height = Math.floor(vh * SAMPLE_SCALE);
+    this.sampleW = Math.floor(vw * this.params.resolution);
+    this.sampleH = Math.floor(vh * this.params.resolution);
   };
 
   shuffle() {
     // full-screen — no repositioning needed
   }
 
+  /** Sample a different lane's video from now on */
+  setPlayer(player: VideoPlayer) {
+    this.player = player;
+  }
+
+  setParams(values: ParamValues<typeof EDGE_PARAMS>) {
+    const resized = values.resolution !== this.params.resolution;
+    this.params = values;
+    if (resized) this.resize();
+  }
+
+  /** The element it draws into, for the layer stack */
+  get element(): HTMLElement {
+    return this.canvas;
+  }
+
   toggle(): boolean {
     this.visible = !this.visible;
     this.canvas.style.display = this.visible ? 'block' : 'none';
@@ -82,70 +102,9 @@ export class EdgeOverlay {
 
     const video = this.player.activeVideo;
     if (video && video.readyState >= 2) {
-      const w = this.offscreen.width;
-      const h = this.offscreen.height;
-
-      // Cover-fit the video into the offscreen canvas
-      const vw = video.videoWidth || w;
-      const vh = video.videoHeight || h;
-      const canvasRatio = w / h;
-      const videoRatio = vw / vh;
-      let sx = 0, sy = 0, sw = vw, sh = vh;
-      if (videoRatio > canvasRatio) {
-        sw = vh * canvasRatio;
-        sx = (vw - sw) / 2;
-      } else {
-        sh = vw / canvasRatio;
-        sy = (vh - sh) / 2;
-      }
-      this.offCtx.drawImage(video, sx, sy, sw, sh, 0, 0, w, h);
-
-      const src = this.offCtx.getImageData(0, 0, w, h);
-      const sd = src.data;
-      const step = 255 / (POSTERIZE_LEVELS - 1);
-
-      // Grayscale buffer for Sobel
-      const gray = new Uint8Array(w * h);
-      for (let i = 0; i < gray.length; i++) {
-        const j = i * 4;
-        gray[i] = (sd[j] * 77 + sd[j + 1] * 150 + sd[j + 2] * 29) >> 8;
-      }
-
-      // Posterize colors in-place
-      for (let i = 0; i < sd.length; i += 4) {
-        sd[i]     = Math.round(sd[i] / step) * step;
-        sd[i + 1] = Math.round(sd[i + 1] / step) * step;
-        sd[i + 2] = Math.round(sd[i + 2] / step) * step;
-      }
-
-      // Burn Sobel edges as dark outlines
-      for (let y = 1; y < h - 1; y++) {
-        for (let x = 1; x < w - 1; x++) {
-          const i = y * w + x;
-          const tl = gray[i - w - 1], tc = gray[i - w], tr = gray[i - w + 1];
-          const ml = gray[i - 1],                        mr = gray[i + 1];
-          const bl = gray[i + w - 1], bc = gray[i + w], br = gray[i + w + 1];
-
-          const gx = -tl - 2 * ml - bl + tr + 2 * mr + br;
-          const gy = -tl - 2 * tc - tr + bl + 2 * bc + br;
-          const mag = Math.sqrt(gx * gx + gy * gy);
-
-          if (mag > EDGE_THRESHOLD) {
-            const pi = i * 4;
-            const darken = Math.min(1, mag / 255);
-            sd[pi]     = Math.floor(sd[pi] * (1 - darken));
-            sd[pi + 1] = Math.floor(sd[pi + 1] * (1 - darken));
-            sd[pi + 2] = Math.floor(sd[pi + 2] * (1 - darken));
-          }
-        }
-      }
-
-      this.offCtx.putImageData(src, 0, 0);
-
-      const ctx = this.ctx;
-      ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
-      ctx.imageSmoothingEnabled = false;
-      ctx.drawImage(this.offscreen, 0, 0, this.canvas.width, this.canvas.height);
+      this.sampler.blit(this.canvas, video, 'edge', this.sampleW, this.sampleH, {
+        uniforms: { u_threshold: this.params.threshold, u_levels: this.params.levels },
+      });
     }
 
     this.rafId = requestAnimationFrame(this.draw);
@@ -0,0 +1,385 @@
+/**
+ * Edit timeline.
+ * Records what actually happened during a take — every clip that went
+ * on screen (which lane, which beat, at which in-point) and every FX
+ * toggle — in song time, so the take can be exported and rebuilt in an
+ * NLE. Exports JSON (everything), CMX3600 EDL and FCPXML (program lane
+ * plus the song, FX toggles as comments / markers).
+ */
+
+import { config } from './config';
+import { LAYOUTS } from './layouts';
+import type { Cut } from './player';
+import { TRANSITION_NAMES } from './transitions';
+
+export interface CutEvent {
+  type: 'cut';
+  /** Song time (seconds) */
+  time: number;
+  beat: number;
+  lane: number;
+  clip: string;
+  /** Position within the clip (seconds) */
+  inPoint: number;
+  /** Length of the clip (seconds), when it was known; it loops past its end */
+  clipDuration?: number;
+  /** What each overlay's shuffle picked for this cut, by FX name */
+  overlays?: OverlayStates;
+  /** Soft transition into this clip; absent for a hard cut */
+  transition?: Cut['transition'];
+}
+
+export interface FxEvent {
+  type: 'fx';
+  time: number;
+  fx: string;
+  on: boolean;
+  /** The overlay's params as it came on */
+  state?: unknown;
+}
+
+export type EditEvent = CutEvent | FxEvent;
+
+export type OverlayStates = Record<string, unknown>;
+
+export interface EditTimelineJSON {
+  version: 1;
+  title: string;
+  song: string;
+  seed: string;
+  /** Song time the take was exported at (seconds) */
+  end: number;
+  events: EditEvent[];
+}
+
+export type ExportFormat = 'json' | 'edl' | 'fcpxml';
+
+/** Whether `state` is something effect `fx` can restore (see `isOverlayState`) */
+export type StateCheck = (fx: string, state: unknown) => boolean;
+
+/** A clip's stretch of the program, derived from consecutive cuts; never runs past the clip's end */
+interface Shot {
+  clip: string;
+  inPoint: number;
+  start: number;
+  end: number;
+  clipDuration?: number;
+}
+
+/** Record timecode starts at 01:00:00:00, as NLEs expect */
+const RECORD_START = 3600;
+
+/** Lanes a take can replay on: as many as the biggest layout has */
+const MAX_LANES = Math.max(...Object.values(LAYOUTS).map((l) => l.lanes));
+
+export class EditTimeline {
+  readonly title: string;
+  readonly song: string;
+  readonly seed: string;
+  private events: EditEvent[] = [];
+
+  constructor(title: string, song: string, seed: string) {
+    this.title = title;
+    this.song = song;
+    this.seed = seed;
+  }
+
+  cut(lane: number, cut: Cut, overlays?: OverlayStates) {
+    const { time, beat, clip, inPoint, clipDuration, transition } = cut;
+    this.events.push({ type: 'cut', time, beat, lane, clip, inPoint, clipDuration, overlays, transition });
+  }
+
+  fx(fx: string, on: boolean, time: number, state?: unknown) {
+    this.events.push({ type: 'fx', time, fx, on, state });
+  }
+
+  /** Drop everything recorded from `time` on — after a seek the rest is re-recorded */
+  rewind(time: number) {
+    this.events = this.events.filter((e) => e.time < time);
+  }
+
+  toJSON(end: number): EditTimelineJSON {
+    return {
+      version: 1,
+      title: this.title,
+      song: this.song,
+      seed: this.seed,
+      end,
+      events: [...this.events],
+    };
+  }
+
+  /** CMX3600 EDL of the program lane, with the song on the audio track */
+  toEDL(end: number): string {
+    const fps = config.exportFps;
+    const lines = [`TITLE: ${this.title}`, 'FCM: NON-DROP FRAME', ''];
+    let n = 0;
+    const event = (track: string, srcIn: number, srcOut: number, recIn: number, recOut: number) => {
+      n++;
+      lines.push(
+        `${String(n).padStart(3, '0')}  AX       ${track.padEnd(5)} C        ` +
+          `${timecode(srcIn, fps)} ${timecode(srcOut, fps)} ` +
+          `${timecode(RECORD_START + recIn, fps)} ${timecode(RECORD_START + recOut, fps)}`,
+      );
+    };
+
+    for (const shot of this.shots(0, end)) {
+      event('V', shot.inPoint, shot.inPoint + shot.end - shot.start, shot.start, shot.end);
+      lines.push(`* FROM CLIP NAME: ${fileName(shot.clip)}`);
+      for (const fx of this.fxEvents()) {
+        if (fx.time >= shot.start && fx.time < shot.end) {
+          lines.push(`* COMMENT: ${fx.fx.toUpperCase()} ${fx.on ? 'ON' : 'OFF'} AT ${timecode(RECORD_START + fx.time, fps)}`);
+        }
+      }
+      lines.push('');
+    }
+
+    event('AA', 0, end, 0, end);
+    lines.push(`* FROM CLIP NAME: ${fileName(this.song)}`, '');
+    return lines.join('\n');
+  }
+
+  /** FCPXML 1.9 project: program lane on the spine, song as a connected clip */
+  toFCPXML(end: number): string {
+    const fps = config.exportFps;
+    const t = (seconds: number) => rational(seconds, fps);
+    const shots = this.shots(0, end);
+
+    // One asset per clip: its real length, or (unknown) long enough to cover every use of it
+    const assets = new Map<string, { id: string; duration: number }>();
+    for (const shot of shots) {
+      const used = shot.clipDuration ?? shot.inPoint + shot.end - shot.start;
+      const asset = assets.get(shot.clip);
+      if (asset) asset.duration = Math.max(asset.duration, used);
+      else assets.set(shot.clip, { id: `r${assets.size + 2}`, duration: used });
+    }
+    const songId = `r${assets.size + 2}`;
+
+    const resources = [
+      `    <format id="r1" name="FFVideoFormat1080p${fps}" frameDuration="${t(1 / fps)}" width="1920" height="1080"/>`,
+      ...[...assets].map(([clip, { id, duration }]) =>
+        `    <asset id="${id}" name="${xml(fileName(clip))}" src="${xml(mediaUrl(clipPath(clip)))}" start="0s" duration="${t(duration)}" hasVideo="1" format="r1"/>`,
+      ),
+      `    <asset id="${songId}" name="${xml(fileName(this.song))}" src="${xml(mediaUrl(this.song))}" start="0s" duration="${t(end)}" hasAudio="1" audioSources="1" audioChannels="2"/>`,
+    ];
+
+    // Spine items: a gap until the first cut, then one clip per shot
+    const items: { tag: string; attrs: string; offset: number; start: number; length: number }[] = [];
+    if (shots.length === 0 || shots[0].start > 0) {
+      const length = shots.length > 0 ? shots[0].start : end;
+      items.push({ tag: 'gap', attrs: `name="Gap" offset="0s" start="0s" duration="${t(length)}"`, offset: 0, start: 0, length });
+    }
+    for (const shot of shots) {
+      const length = shot.end - shot.start;
+      const { id } = assets.get(shot.clip)!;
+      items.push({
+        tag: 'asset-clip',
+        attrs: `ref="${id}" name="${xml(fileName(shot.clip))}" offset="${t(shot.start)}" start="${t(shot.inPoint)}" duration="${t(length)}"`,
+        offset: shot.start,
+        start: shot.inPoint,
+        length,
+      });
+    }
+
+    const spine = items.flatMap((item, i) => {
+      const children: string[] = [];
+      // Marker and connected-clip times are in the parent's source time
+      for (const fx of this.fxEvents()) {
+        if (fx.time >= item.offset && fx.time < item.offset + item.length) {
+          const at = item.start + fx.time - item.offset;
+          children.push(`<marker start="${t(at)}" duration="${t(1 / fps)}" value="${xml(`${fx.fx} ${fx.on ? 'on' : 'off'}`)}"/>`);
+        }
+      }
+      if (i === 0) {
+        children.push(`<asset-clip ref="${songId}" lane="-1" name="${xml(fileName(this.song))}" offset="${t(item.start)}" start="0s" duration="${t(end)}"/>`);
+      }
+      if (children.length === 0) return [`            <${item.tag} ${item.attrs}/>`];
+      return [
+        `            <${item.tag} ${item.attrs}>`,
+        ...children.map((c) => `              ${c}`),
+        `            </${item.tag}>`,
+      ];
+    });
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<!DOCTYPE fcpxml>',
+      '<fcpxml version="1.9">',
+      '  <resources>',
+      ...resources,
+      '  </resources>',
+      '  <library>',
+      `    <event name="${xml(this.title)}">`,
+      `      <project name="${xml(`${this.title} (${this.seed})`)}">`,
+      `        <sequence format="r1" duration="${t(end)}" tcStart="0s" tcFormat="NDF">`,
+      '          <spine>',
+      ...spine,
+      '          </spine>',
+      '        </sequence>',
+      '      </project>',
+      '    </event>',
+      '  </library>',
+      '</fcpxml>',
+      '',
+    ].join('\n');
+  }
+
+  /** Consecutive cuts on one lane, each shot running until the next cut */
+  private shots(lane: number, end: number): Shot[] {
+    const cuts = this.events
+      .filter((e): e is CutEvent => e.type === 'cut' && e.lane === lane && e.time < end)
+      .sort((a, b) => a.time - b.time);
+    // Cut points snap to the export frame grid
+    const fps = config.exportFps;
+    const snap = (seconds: number) => Math.round(seconds * fps) / fps;
+
+    const shots: Shot[] = [];
+    cuts.forEach((cut, i) => {
+      const start = snap(cut.time);
+      const shotEnd = snap(i + 1 < cuts.length ? cuts[i + 1].time : end);
+      // Two cuts inside one frame: the later one wins
+      if (shotEnd <= start) return;
+      const { clip, clipDuration } = cut;
+      if (!clipDuration || clipDuration < 1 / fps) {
+        shots.push({ clip, inPoint: cut.inPoint, start, end: shotEnd });
+        return;
+      }
+      // A clip that ran out looped back to its start: one shot per pass
+      let inPoint = cut.inPoint % clipDuration;
+      for (let from = start; from < shotEnd; inPoint = 0) {
+        // Frame-snapped down, so no pass reads past the clip's end
+        const to = Math.min(shotEnd, Math.floor((from + clipDuration - inPoint) * fps + 1e-6) / fps);
+        if (to > from) shots.push({ clip, inPoint, start: from, end: to, clipDuration });
+        from = Math.max(from, to);
+      }
+    });
+    return shots;
+  }
+
+  private fxEvents(): FxEvent[] {
+    return this.events.filter((e): e is FxEvent => e.type === 'fx');
+  }
+}
+
+/**
+ * Check that a parsed document is a take this version can replay — every
+ * event, down to the overlay states it will restore (`isState`) — so a
+ * hand-edited or damaged file is turned away up front, not partway through.
+ */
+export function parseTake(doc: unknown, isState: StateCheck): EditTimelineJSON {
+  const take = doc as EditTimelineJSON;
+  if (!take || take.version !== 1 || typeof take.song !== 'string' || !Array.isArray(take.events)) {
+    throw new Error('Not an edit timeline (expected a version 1 JSON export)');
+  }
+  if (typeof take.title !== 'string' || typeof take.seed !== 'string' || !isTime(take.end)) {
+    throw new Error('Edit timeline is missing its title, seed or end');
+  }
+  take.events.forEach((event, i) => {
+    const problem = eventProblem(event, isState);
+    if (problem) throw new Error(`Edit timeline event ${i + 1} is invalid: ${problem}`);
+  });
+  return take;
+}
+
+/** What's wrong with a take's event, or null if it will replay */
+function eventProblem(event: unknown, isState: StateCheck): string | null {
+  if (!event || typeof event !== 'object') return 'not an object';
+  const e = event as Partial<CutEvent> & Partial<FxEvent>;
+  if (!isTime(e.time)) return 'time must be a number of seconds';
+
+  if (e.type === 'fx') {
+    if (typeof e.fx !== 'string' || typeof e.on !== 'boolean') return 'an fx toggle needs an effect name and on';
+    if (e.state !== undefined && !isState(e.fx, e.state)) return `the ${e.fx} state doesn't fit that effect`;
+    return null;
+  }
+  if (e.type !== 'cut') return `unknown type "${String(e.type)}"`;
+
+  if (!Number.isInteger(e.lane) || e.lane! < 0 || e.lane! >= MAX_LANES) {
+    return `lane must be a whole number from 0 to ${MAX_LANES - 1}`;
+  }
+  if (!Number.isInteger(e.beat) || e.beat! < 0) return 'beat must be a whole number from 0';
+  if (typeof e.clip !== 'string' || e.clip === '') return 'clip must be a file name';
+  if (!isTime(e.inPoint)) return 'inPoint must be a number of seconds';
+  if (e.clipDuration !== undefined && !(isTime(e.clipDuration) && e.clipDuration > 0)) {
+    return 'clipDuration must be a number of seconds';
+  }
+  const { transition, overlays } = e;
+  if (transition !== undefined) {
+    const known = !!transition && TRANSITION_NAMES.includes(transition.name);
+    if (!known || !(Number.isFinite(transition.beats) && transition.beats > 0)) {
+      return 'transition needs a known name and a number of beats';
+    }
+  }
+  if (overlays !== undefined) {
+    if (!overlays || typeof overlays !== 'object') return 'overlays must be an object';
+    for (const [fx, state] of Object.entries(overlays)) {
+      if (!isState(fx, state)) return `the ${fx} state doesn't fit that effect`;
+    }
+  }
+  return null;
+}
+
+function isTime(v: unknown): v is number {
+  return typeof v === 'number' && Number.isFinite(v) && v >= 0;
+}
+
+/** Fetch a take exported as JSON */
+export async function loadTake(url: string, isState: StateCheck): Promise<EditTimelineJSON> {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Could not load take: ${url} (${res.status})`);
+  return parseTake(await res.json(), isState);
+}
+
+/** Save an export of the take as a file download */
+export function downloadTimeline(timeline: EditTimeline, format: ExportFormat, end: number) {
+  const body =
+    format === 'json' ? JSON.stringify(timeline.toJSON(end), null, 2)
+    : format === 'edl' ? timeline.toEDL(end)
+    : timeline.toFCPXML(end);
+  const type = format === 'json' ? 'application/json' : format === 'edl' ? 'text/plain' : 'application/xml';
+
+  const url = URL.createObjectURL(new Blob([body], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${timeline.title}-${timeline.seed}.${format}`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+/** HH:MM:SS:FF, non-drop-frame */
+function timecode(seconds: number, fps: number): string {
+  const total = Math.round(seconds * fps);
+  const frames = total % fps;
+  const s = Math.floor(total / fps);
+  const pad = (v: number) => String(v).padStart(2, '0');
+  return `${pad(Math.floor(s / 3600))}:${pad(Math.floor(s / 60) % 60)}:${pad(s % 60)}:${pad(frames)}`;
+}
+
+/** FCPXML rational time, snapped to the frame grid */
+function rational(seconds: number, fps: number): string {
+  const frames = Math.round(seconds * fps);
+  return frames === 0 ? '0s' : `${frames}/${fps}s`;
+}
+
+function fileName(path: string): string {
+  return path.split('/').pop() ?? path;
+}
+
+/** Where a manifest clip lives, relative to the site root */
+function clipPath(clip: string): string {
+  return clip.startsWith('http') ? clip : `clips/${clip}`;
+}
+
+/** Absolute URL for an asset: site paths resolve against `config.exportMediaRoot` */
+function mediaUrl(path: string): string {
+  if (/^[a-z][a-z0-9+.-]*:/i.test(path)) return path;
+  return new URL(encodeURI(path.replace(/^\//, '')), config.exportMediaRoot).href;
+}
+
+function xml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
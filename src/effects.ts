@@ -0,0 +1,446 @@
+/**
+ * Effect registry.
+ * Every FX is registered here once — its name, pad label, icon and how
+ * to build it — and gets its number key, FX pad button and fx-dialog row
+ * from that, in registry order. main.ts drives them all through the
+ * `Overlay` interface.
+ */
+
+import { config } from './config';
+import { BLEND_MODES, type BlendMode, type LayerStack } from './layers';
+import type { ParamSchema, ParamStore, ParamValues } from './params';
+import type { VideoPlayer } from './player';
+import type { Random } from './random';
+import { TRACKING_PARAMS, TrackingOverlay, isTrackingState } from './tracking-overlay';
+import { THRESHOLD_PARAMS, ThresholdOverlay, isThresholdState } from './threshold-overlay';
+import { InvertOverlay } from './invert-overlay';
+import { DITHER_PARAMS, DitherOverlay, isDitherState } from './dither-overlay';
+import { EDGE_PARAMS, EdgeOverlay } from './edge-overlay';
+import { MOSAIC_PARAMS, MosaicOverlay, isMosaicState } from './mosaic-overlay';
+import { ZOOM_PARAMS, ZoomOverlay, isZoomState } from './zoom-overlay';
+import { ScanlinesOverlay } from './scanlines-overlay';
+import { STROBE_PARAMS, StrobeOverlay } from './strobe-overlay';
+import { TimecodeOverlay } from './timecode-overlay';
+
+/** What every effect can do, plus the hooks only some of them have */
+export interface Overlay {
+  /** Show/hide; returns whether it's now on */
+  toggle(): boolean;
+  destroy(): void;
+  /** Element it draws into, stacked by the layer stack */
+  readonly element?: HTMLElement;
+  /** Re-roll position/params — called on FX-lane cuts */
+  shuffle?(): void;
+  /** Sample a different lane's video */
+  setPlayer?(player: VideoPlayer): void;
+  /** Params as the last shuffle left them, for the edit timeline */
+  snapshot?(): unknown;
+  restore?(state: unknown): void;
+  /** React to a drum hit between cuts */
+  pulse?(): void;
+  /** React to a cut on the FX lane */
+  flash?(): void;
+  /** Re-sync to the audio clock after a seek (`startTime` = clock time of 0:00) */
+  seek?(startTime: number): void;
+  /** Take new values for the effect's `params` schema */
+  setParams?(values: ParamValues): void;
+}
+
+/** Everything an effect can be built from */
+export interface EffectContext {
+  /** Where overlays append their canvases */
+  app: HTMLElement;
+  videoContainer: HTMLElement;
+  /** The FX lane's player */
+  player: VideoPlayer;
+  audioCtx: AudioContext;
+  /** Audio clock time of the song's 0:00 */
+  startTime: number;
+  /** The effect's own seeded stream */
+  random: Random;
+}
+
+export interface EffectDef {
+  /** Pad action name — also what the edit timeline logs toggles under */
+  name: string;
+  /** Pad button label */
+  label: string;
+  /** fx-dialog description */
+  title: string;
+  /** Inline SVG for the pad button */
+  icon: string;
+  /** Random stream name under the edit seed (defaults to `name`) */
+  stream?: string;
+  /** On when a track starts */
+  defaultOn?: boolean;
+  /**
+   * Default place in the layer stack (lower sits further down), or false
+   * for effects with no element of their own
+   */
+  layer: number | false;
+  /** Live-tunable params, edited from the params panel */
+  params?: ParamSchema;
+  /** Checks a recorded snapshot before it's restored (effects that snapshot) */
+  isState?(state: unknown): boolean;
+  create(ctx: EffectContext): Overlay;
+}
+
+const svg = (body: string) =>
+  `<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="1.5">${body}</svg>`;
+
+export const EFFECTS: EffectDef[] = [
+  {
+    name: 'track',
+    label: 'TRACK',
+    title: 'Tracking overlay',
+    icon: svg('<path d="M2 8V2h6"/><path d="M22 8V2h-6"/><path d="M2 16v6h6"/><path d="M22 16v6h-6"/><circle cx="12" cy="12" r="3"/>'),
+    stream: 'tracking',
+    defaultOn: true,
+    layer: 50,
+    params: TRACKING_PARAMS,
+    isState: isTrackingState,
+    create: ({ app, player, random }) => new TrackingOverlay(app, player, random),
+  },
+  {
+    name: 'threshold',
+    label: 'THRESH',
+    title: 'Threshold overlay',
+    icon: svg('<circle cx="12" cy="12" r="10"/><path d="M12 2a10 10 0 0 1 0 20" fill="currentColor"/>'),
+    defaultOn: true,
+    layer: 55,
+    params: THRESHOLD_PARAMS,
+    isState: isThresholdState,
+    create: ({ app, player, random }) => new ThresholdOverlay(app, player, random),
+  },
+  {
+    name: 'invert',
+    label: 'INVERT',
+    title: 'Invert + desaturate',
+    icon: svg('<rect x="3" y="3" width="18" height="18" rx="2"/><line x1="3" y1="3" x2="21" y2="21"/>'),
+    layer: false,
+    create: ({ videoContainer }) => new InvertOverlay(videoContainer),
+  },
+  {
+    name: 'dither',
+    label: 'DITHER',
+    title: 'Dither',
+    icon: svg('<rect x="3" y="3" width="4" height="4"/><rect x="11" y="3" width="4" height="4"/><rect x="7" y="7" width="4" height="4"/><rect x="3" y="11" width="4" height="4"/><rect x="11" y="11" width="4" height="4"/><rect x="17" y="7" width="4" height="4"/><rect x="7" y="17" width="4" height="4"/><rect x="17" y="17" width="4" height="4"/>'),
+    defaultOn: true,
+    layer: 56,
+    params: DITHER_PARAMS,
+    isState: isDitherState,
+    create: ({ app, player, random }) => new DitherOverlay(app, player, random),
+  },
+  {
+    name: 'edge',
+    label: 'EDGE',
+    title: 'Posterized edges',
+    icon: svg('<path d="M3 20L10 6l4 8 3-5 4 11z"/>'),
+    layer: 52,
+    params: EDGE_PARAMS,
+    create: ({ app, player }) => new EdgeOverlay(app, player),
+  },
+  {
+    name: 'mosaic',
+    label: 'MOSAIC',
+    title: 'Pixel mosaic',
+    icon: svg('<rect x="3" y="3" width="8" height="8"/><rect x="13" y="3" width="8" height="8" fill="currentColor"/><rect x="3" y="13" width="8" height="8" fill="currentColor"/><rect x="13" y="13" width="8" height="8"/>'),
+    layer: 57,
+    params: MOSAIC_PARAMS,
+    isState: isMosaicState,
+    create: ({ app, player, random }) => new MosaicOverlay(app, player, random),
+  },
+  {
+    name: 'zoom',
+    label: 'ZOOM',
+    title: 'Zoom crop',
+    icon: svg('<circle cx="10" cy="10" r="6"/><line x1="14.5" y1="14.5" x2="21" y2="21"/>'),
+    layer: 59,
+    params: ZOOM_PARAMS,
+    isState: isZoomState,
+    create: ({ app, player, random }) => new ZoomOverlay(app, player, random),
+  },
+  {
+    name: 'scanlines',
+    label: 'SCAN',
+    title: 'CRT scan lines',
+    icon: svg('<line x1="3" y1="5" x2="21" y2="5"/><line x1="3" y1="10" x2="21" y2="10"/><line x1="3" y1="15" x2="21" y2="15"/><line x1="3" y1="20" x2="21" y2="20"/>'),
+    layer: 70,
+    create: ({ app }) => new ScanlinesOverlay(app),
+  },
+  {
+    name: 'strobe',
+    label: 'STROBE',
+    title: 'Strobe on cuts and kicks',
+    icon: svg('<path d="M13 2L4 14h7l-1 8 9-12h-7z"/>'),
+    layer: 80,
+    params: STROBE_PARAMS,
+    create: ({ app }) => new StrobeOverlay(app),
+  },
+  {
+    name: 'timecode',
+    label: 'TC',
+    title: 'Timecode burn-in',
+    icon: svg('<circle cx="12" cy="12" r="9"/><path d="M12 7v5l3 2"/>'),
+    layer: 60,
+    create: ({ app, audioCtx, startTime }) => new TimecodeOverlay(app, audioCtx, startTime),
+  },
+];
+
+/**
+ * Whether a recorded state fits effect `name`'s `restore`. Effects that
+ * don't snapshot ignore whatever's recorded for them, so anything goes.
+ */
+export function isOverlayState(name: string, state: unknown): boolean {
+  const def = EFFECTS.find((d) => d.name === name);
+  return !def?.isState || def.isState(state);
+}
+
+/** Keyboard keys in registry order: 1–9, then 0 */
+const KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '0'];
+
+/** The key that toggles the effect at registry position `index`, if it has one */
+export function effectKey(index: number): string | undefined {
+  return KEYS[index];
+}
+
+/** Registry position of the effect toggled by `key`, or -1 */
+export function effectForKey(key: string): number {
+  const index = KEYS.indexOf(key);
+  return index < EFFECTS.length ? index : -1;
+}
+
+/** Horizontal drag (px) that flips the FX pad to the next/previous page */
+const SWIPE_DISTANCE = 40;
+
+/**
+ * One FX pad button per effect, then the SCENE button (#pad-scene),
+ * `config.padPageSize` to a page. With more than one page, dots above
+ * the grid (or a swipe) flip between them.
+ */
+export function renderFxPad(pad: HTMLElement) {
+  pad.innerHTML = '';
+  const size = config.padPageSize;
+  const pageCount = Math.ceil((EFFECTS.length + 1) / size);
+
+  const pages = document.createElement('div');
+  pages.className = 'pad-pages';
+  pages.hidden = pageCount <= 1;
+  const grid = document.createElement('div');
+  grid.className = 'pad-grid';
+  grid.style.gridTemplateRows = `repeat(${Math.ceil(size / 2)}, 1fr)`;
+  pad.append(pages, grid);
+
+  const buttons = EFFECTS.map((def) => {
+    const btn = document.createElement('button');
+    btn.className = 'pad-btn';
+    btn.dataset.action = def.name;
+    btn.dataset.midi = `fx:${def.name}`;
+    btn.setAttribute('aria-label', def.title);
+    btn.innerHTML = `${def.icon}<span>${def.label}</span>`;
+    grid.appendChild(btn);
+    return btn;
+  });
+
+  const sceneBtn = document.createElement('button');
+  sceneBtn.className = 'pad-btn';
+  sceneBtn.id = 'pad-scene';
+  sceneBtn.dataset.midi = 'scene:next';
+  sceneBtn.setAttribute('aria-label', 'Next scene');
+  sceneBtn.innerHTML = `${svg('<rect x="3" y="6" width="13" height="13"/><path d="M7 2h14v14"/>')}<span>SCENE</span>`;
+  grid.appendChild(sceneBtn);
+  buttons.push(sceneBtn);
+
+  let page = 0;
+  const dots: HTMLButtonElement[] = [];
+  const showPage = (n: number) => {
+    page = Math.max(0, Math.min(n, pageCount - 1));
+    buttons.forEach((btn, i) => { btn.hidden = Math.floor(i / size) !== page; });
+    dots.forEach((dot, i) => dot.classList.toggle('active', i === page));
+  };
+  for (let i = 0; i < pageCount; i++) {
+    const dot = document.createElement('button');
+    dot.className = 'pad-page-btn';
+    dot.setAttribute('aria-label', `FX page ${i + 1}`);
+    dot.onclick = () => showPage(i);
+    pages.appendChild(dot);
+    dots.push(dot);
+  }
+
+  let swipeX: number | null = null;
+  let swiped = false;
+  grid.addEventListener('pointerdown', (e) => { swipeX = e.clientX; });
+  grid.addEventListener('pointerup', (e) => {
+    if (swipeX === null) return;
+    const dx = e.clientX - swipeX;
+    swipeX = null;
+    swiped = Math.abs(dx) >= SWIPE_DISTANCE;
+    if (swiped) showPage(page + (dx < 0 ? 1 : -1));
+  });
+  grid.addEventListener('pointercancel', () => { swipeX = null; });
+  // A swipe that ends on a button flips the page without toggling it
+  grid.addEventListener('click', (e) => {
+    if (swiped) e.stopPropagation();
+    swiped = false;
+  }, true);
+
+  showPage(0);
+}
+
+/** Effects that stack as layers, in default order (bottom first) */
+export function layerNames(): string[] {
+  const layered = EFFECTS.filter((def): def is EffectDef & { layer: number } => def.layer !== false);
+  return layered.sort((a, b) => a.layer - b.layer).map((def) => def.name);
+}
+
+/**
+ * One fx-dialog row per effect, ahead of the dialog's own rows. Layered
+ * effects get controls for their place in `layers`: up/down, opacity
+ * and blend mode.
+ */
+export function renderFxDialog(dialog: HTMLElement, layers: LayerStack) {
+  const first = dialog.firstElementChild;
+  const refresh: (() => void)[] = [];
+  EFFECTS.forEach((def, i) => {
+    const row = document.createElement('div');
+    row.className = 'fx-row';
+    const key = effectKey(i);
+    if (key) {
+      const kbd = document.createElement('kbd');
+      kbd.textContent = key;
+      row.appendChild(kbd);
+    }
+    const label = document.createElement('span');
+    label.textContent = def.title;
+    // The pad is mobile-only, so MIDI learn on desktop arms toggles here
+    label.dataset.midi = `fx:${def.name}`;
+    row.appendChild(label);
+    if (def.layer !== false) refresh.push(renderLayerControls(row, def.name, layers));
+    dialog.insertBefore(row, first);
+  });
+  layers.onChange = () => refresh.forEach((r) => r());
+}
+
+/** Layer controls for one row; returns a function that re-reads the stack */
+function renderLayerControls(row: HTMLElement, name: string, layers: LayerStack): () => void {
+  const controls = document.createElement('div');
+  controls.className = 'layer-controls';
+
+  const position = document.createElement('span');
+  position.className = 'layer-position';
+  position.title = 'Layer (1 = bottom)';
+
+  const button = (text: string, title: string, delta: number) => {
+    const btn = document.createElement('button');
+    btn.className = 'layer-btn';
+    btn.textContent = text;
+    btn.title = title;
+    btn.onclick = () => layers.move(name, delta);
+    return btn;
+  };
+
+  const opacity = document.createElement('input');
+  opacity.type = 'range';
+  opacity.className = 'layer-opacity';
+  opacity.min = '0';
+  opacity.max = '1';
+  opacity.step = '0.05';
+  opacity.title = 'Opacity';
+  opacity.oninput = () => layers.setOpacity(name, parseFloat(opacity.value));
+
+  const blend = document.createElement('select');
+  blend.className = 'layer-blend';
+  blend.title = 'Blend mode';
+  for (const mode of BLEND_MODES) blend.add(new Option(mode, mode));
+  blend.onchange = () => layers.setBlend(name, blend.value as BlendMode);
+
+  controls.append(position, button('▲', 'Move up', 1), button('▼', 'Move down', -1), opacity, blend);
+  row.appendChild(controls);
+
+  const refresh = () => {
+    const layer = layers.get(name);
+    if (!layer) return;
+    position.textContent = String(layers.order.indexOf(layer) + 1);
+    opacity.value = String(layer.opacity);
+    blend.value = layer.blend;
+  };
+  refresh();
+  return refresh;
+}
+
+/** Param schemas of the effects that have them, by name */
+export function paramSchemas(): Record<string, ParamSchema> {
+  const schemas: Record<string, ParamSchema> = {};
+  for (const def of EFFECTS) if (def.params) schemas[def.name] = def.params;
+  return schemas;
+}
+
+/**
+ * The params panel: a group per effect with params — a slider, select or
+ * color picker for each, and a reset — editing `params` live.
+ */
+export function renderParamPanel(panel: HTMLElement, params: ParamStore) {
+  panel.innerHTML = '';
+  const refresh = new Map<string, () => void>();
+  for (const def of EFFECTS) {
+    const schema = def.params;
+    if (!schema) continue;
+
+    const group = document.createElement('section');
+    group.className = 'param-group';
+    const header = document.createElement('header');
+    const title = document.createElement('span');
+    title.textContent = def.title;
+    const reset = document.createElement('button');
+    reset.className = 'param-reset';
+    reset.textContent = 'RESET';
+    reset.onclick = () => params.reset(def.name);
+    header.append(title, reset);
+    group.appendChild(header);
+
+    const inputs = new Map<string, { input: HTMLInputElement | HTMLSelectElement; value?: HTMLElement }>();
+    for (const [key, param] of Object.entries(schema)) {
+      const row = document.createElement('label');
+      row.className = 'param-row';
+      // Knobs can turn numbers and step through choices; colors stay on screen
+      if (param.type !== 'color') row.dataset.midi = `param:${def.name}:${key}`;
+      const label = document.createElement('span');
+      label.textContent = param.label;
+      row.appendChild(label);
+
+      if (param.type === 'select') {
+        const select = document.createElement('select');
+        for (const option of param.options) select.add(new Option(option, option));
+        select.onchange = () => params.set(def.name, key, select.value);
+        row.appendChild(select);
+        inputs.set(key, { input: select });
+      } else {
+        const input = document.createElement('input');
+        input.type = param.type === 'color' ? 'color' : 'range';
+        if (param.type === 'number') {
+          input.min = String(param.min);
+          input.max = String(param.max);
+          input.step = String(param.step);
+        }
+        input.oninput = () => params.set(def.name, key, input.value);
+        row.appendChild(input);
+        const value = param.type === 'number' ? document.createElement('output') : undefined;
+        if (value) row.appendChild(value);
+        inputs.set(key, { input, value });
+      }
+      group.appendChild(row);
+    }
+
+    const update = () => {
+      const values = params.get(def.name);
+      for (const [key, { input, value }] of inputs) {
+        input.value = String(values[key]);
+        if (value) value.textContent = String(values[key]);
+      }
+    };
+    update();
+    refresh.set(def.name, update);
+    panel.appendChild(group);
+  }
+  params.onChange = (effect) => refresh.get(effect)?.();
+}
@@ -0,0 +1,66 @@
+/**
+ * Fires callbacks as the audio clock passes precomputed event times
+ * (kicks, snares, hats). Several events crossed in one frame collapse
+ * into a single call so a dropped frame doesn't burst an effect.
+ */
+
+interface EventTrack {
+  times: number[];
+  cursor: number;
+  callback: () => void;
+}
+
+export class EventClock {
+  private audioCtx: AudioContext;
+  private startTime: number;
+  private tracks: EventTrack[] = [];
+  private rafId = 0;
+  private running = false;
+
+  constructor(audioCtx: AudioContext, startTime: number) {
+    this.audioCtx = audioCtx;
+    this.startTime = startTime;
+  }
+
+  /** Register a sorted list of event times (seconds into the song) */
+  on(times: number[], callback: () => void) {
+    this.tracks.push({ times, cursor: 0, callback });
+  }
+
+  /** Re-sync after a seek — skips everything before the new position */
+  seek(startTime: number) {
+    this.startTime = startTime;
+    const elapsed = this.audioCtx.currentTime - startTime;
+    for (const track of this.tracks) {
+      let cursor = 0;
+      while (cursor < track.times.length && track.times[cursor] <= elapsed) cursor++;
+      track.cursor = cursor;
+    }
+  }
+
+  start() {
+    this.running = true;
+    this.tick();
+  }
+
+  stop() {
+    this.running = false;
+    cancelAnimationFrame(this.rafId);
+  }
+
+  private tick = () => {
+    if (!this.running) return;
+
+    const elapsed = this.audioCtx.currentTime - this.startTime;
+    for (const track of this.tracks) {
+      let fired = false;
+      while (track.cursor < track.times.length && track.times[track.cursor] <= elapsed) {
+        track.cursor++;
+        fired = true;
+      }
+      if (fired) track.callback();
+    }
+
+    this.rafId = requestAnimationFrame(this.tick);
+  };
+}
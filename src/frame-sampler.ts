@@ -0,0 +1,333 @@
+/**
+ * Frame sampler.
+ * The one place overlays read the active video through. It counts each
+ * video's presented frames with `requestVideoFrameCallback` (or, where
+ * that's missing, each new `currentTime` it sees), so the compositor
+ * uploads a frame once and every CPU buffer is read back at most once
+ * per video frame — however many overlays subscribe to it, or how many
+ * animation frames pass before the next video frame. Overlays subscribe
+ * with the resolution and format they need (cover-fit luma or RGB,
+ * optionally through a shader pass); subscribers asking for the same
+ * thing share one buffer. Without WebGL2, every pass runs on the CPU
+ * over a frame read back from a 2D canvas instead.
+ */
+
+import { coverCrop, getCompositor, type GLCompositor, type PassName, type PassOptions } from './gl-compositor';
+
+const HAS_FRAME_CALLBACK = 'requestVideoFrameCallback' in HTMLVideoElement.prototype;
+
+/** 'luma': one byte per pixel (Rec. 601); 'rgb': three */
+export type SampleFormat = 'luma' | 'rgb';
+
+export interface SampleSpec {
+  width: number;
+  height: number;
+  format: SampleFormat;
+  /** Shader pass to sample through (defaults to 'copy', the plain frame) */
+  pass?: PassName;
+  /** Aspect ratio to cover-fit the video to (defaults to width / height) */
+  aspect?: number;
+  /** Part of the cover-fit frame to sample, as fractions [x, y, w, h] */
+  crop?: [number, number, number, number];
+  /** The pass's own uniforms, by name */
+  uniforms?: Record<string, number>;
+}
+
+export interface FrameSubscription {
+  /** `video`'s current frame as the spec asks, or null if it can't be read */
+  read(video: HTMLVideoElement): Uint8Array | null;
+  /** Change the spec, e.g. the resolution after a resize */
+  update(spec: Partial<SampleSpec>): void;
+  unsubscribe(): void;
+}
+
+/** One spec's buffer, shared by every subscriber to that spec */
+interface Entry {
+  spec: SampleSpec;
+  refs: number;
+  video: HTMLVideoElement | null;
+  frame: number;
+  data: Uint8Array | null;
+}
+
+export class FrameSampler {
+  private compositor: GLCompositor | null;
+  private entries = new Map<string, Entry>();
+  /** Frames presented so far, per video (only videos that have been sampled) */
+  private frames = new WeakMap<HTMLVideoElement, number>();
+  /** Stops counting a video's frames, per video being counted */
+  private watching = new WeakMap<HTMLVideoElement, () => void>();
+  /** Without frame callbacks: the `currentTime` each video was last counted at */
+  private times = new WeakMap<HTMLVideoElement, number>();
+  // 2D fallback without WebGL2
+  private fallback: CanvasRenderingContext2D | null = null;
+
+  constructor(compositor: GLCompositor | null) {
+    this.compositor = compositor;
+  }
+
+  subscribe(spec: SampleSpec): FrameSubscription {
+    let entry = this.acquire(spec);
+    let subscribed = true;
+    return {
+      read: (video) => this.sample(entry, video),
+      update: (next) => {
+        if (!subscribed) return;
+        const merged = { ...entry.spec, ...next };
+        if (specKey(merged) === specKey(entry.spec)) return;
+        this.release(entry);
+        entry = this.acquire(merged);
+      },
+      unsubscribe: () => {
+        if (subscribed) this.release(entry);
+        subscribed = false;
+      },
+    };
+  }
+
+  /**
+   * Render `pass` over `video` at `width`×`height` and show it, unsmoothed,
+   * over the whole of `canvas`, uploading the frame only if it's new. With
+   * WebGL2 the canvas takes the compositor's output as a bitmap (see
+   * `GLCompositor.blit`); without, the pass runs on the CPU and is drawn
+   * in through a 2D context. Either way the canvas is the sampler's to
+   * draw into. Returns false if nothing could be drawn.
+   */
+  blit(
+    canvas: HTMLCanvasElement,
+    video: HTMLVideoElement,
+    pass: PassName,
+    width: number,
+    height: number,
+    options: PassOptions = {},
+  ): boolean {
+    if (video.readyState < 2) return false;
+    const frame = this.frameOf(video);
+    if (this.compositor) {
+      const target = canvas.getContext('bitmaprenderer');
+      return !!target && this.compositor.blit(target, video, pass, width, height, { ...options, frame });
+    }
+
+    // A plain copy needn't come back through the CPU
+    const target = canvas.getContext('2d');
+    const drawn = pass === 'copy'
+      ? this.cover2d(video, width, height, options)
+      : this.render2d(video, pass, width, height, options);
+    if (!target || !drawn) return false;
+    target.clearRect(0, 0, canvas.width, canvas.height);
+    target.imageSmoothingEnabled = false;
+    target.drawImage(this.fallback!.canvas, 0, 0, width, height, 0, 0, canvas.width, canvas.height);
+    return true;
+  }
+
+  /**
+   * Id of the frame `video` is showing. Counts presented frames (and
+   * seeks, which a hidden pooled video may finish before presenting
+   * anything) once the video has been sampled. Without frame callbacks a
+   * frame is new whenever the video's `currentTime` is.
+   */
+  frameOf(video: HTMLVideoElement): number {
+    if (!this.watching.has(video)) this.watch(video);
+    if (!HAS_FRAME_CALLBACK && this.times.get(video) !== video.currentTime) {
+      this.times.set(video, video.currentTime);
+      this.nextFrame(video);
+    }
+    return this.frames.get(video) ?? 0;
+  }
+
+  /**
+   * Stop counting `video`'s frames — a pooled video being recycled for
+   * another clip. Whatever was sampled from it is stale; the next sample
+   * starts counting again.
+   */
+  forget(video: HTMLVideoElement) {
+    this.watching.get(video)?.();
+    this.watching.delete(video);
+    this.nextFrame(video);
+  }
+
+  private watch(video: HTMLVideoElement) {
+    let handle = 0;
+    const onFrame = () => {
+      this.nextFrame(video);
+      handle = video.requestVideoFrameCallback(onFrame);
+    };
+    const onSeeked = () => this.nextFrame(video);
+    if (HAS_FRAME_CALLBACK) handle = video.requestVideoFrameCallback(onFrame);
+    video.addEventListener('seeked', onSeeked);
+    this.watching.set(video, () => {
+      if (HAS_FRAME_CALLBACK) video.cancelVideoFrameCallback(handle);
+      video.removeEventListener('seeked', onSeeked);
+    });
+  }
+
+  private nextFrame(video: HTMLVideoElement) {
+    this.frames.set(video, (this.frames.get(video) ?? 0) + 1);
+  }
+
+  // ─── Sampling ────────────────────────────────────────────────
+
+  private sample(entry: Entry, video: HTMLVideoElement): Uint8Array | null {
+    if (video.readyState < 2) return null;
+    const frame = this.frameOf(video);
+    if (entry.data && entry.video === video && entry.frame === frame) return entry.data;
+
+    const { width, height, format, pass = 'copy', aspect, crop, uniforms } = entry.spec;
+    const options = { aspect, crop, uniforms, frame };
+    const rgba = this.compositor
+      ? this.compositor.read(video, pass, width, height, options)
+      : this.render2d(video, pass, width, height, options)?.data;
+    if (!rgba) return null;
+
+    const pixels = width * height;
+    const size = format === 'rgb' ? pixels * 3 : pixels;
+    if (entry.data?.length !== size) entry.data = new Uint8Array(size);
+    const data = entry.data;
+    if (format === 'rgb') {
+      for (let i = 0; i < pixels; i++) {
+        data[i * 3] = rgba[i * 4];
+        data[i * 3 + 1] = rgba[i * 4 + 1];
+        data[i * 3 + 2] = rgba[i * 4 + 2];
+      }
+    } else {
+      for (let i = 0; i < pixels; i++) {
+        data[i] = rgba[i * 4] * 0.299 + rgba[i * 4 + 1] * 0.587 + rgba[i * 4 + 2] * 0.114;
+      }
+    }
+    entry.video = video;
+    entry.frame = frame;
+    return data;
+  }
+
+  // ─── 2D fallback ─────────────────────────────────────────────
+
+  /**
+   * Without WebGL2: cover-fit `video` into a small 2D canvas, read it back
+   * and run `pass` over the pixels on the CPU, leaving the result in the
+   * canvas too.
+   */
+  private render2d(
+    video: HTMLVideoElement,
+    pass: PassName,
+    width: number,
+    height: number,
+    options: PassOptions,
+  ): ImageData | null {
+    const ctx = this.cover2d(video, width, height, options);
+    if (!ctx) return null;
+    const image = ctx.getImageData(0, 0, width, height);
+    if (pass !== 'copy') {
+      PASSES_2D[pass](image.data, width, height, options.uniforms ?? {});
+      ctx.putImageData(image, 0, 0);
+    }
+    return image;
+  }
+
+  /** Draw the cover-fit (and cropped) frame into the fallback canvas, at `width`×`height` */
+  private cover2d(
+    video: HTMLVideoElement,
+    width: number,
+    height: number,
+    options: PassOptions,
+  ): CanvasRenderingContext2D | null {
+    if (width < 1 || height < 1 || !video.videoWidth || !video.videoHeight) return null;
+    if (!this.fallback) {
+      this.fallback = document.createElement('canvas').getContext('2d', { willReadFrequently: true });
+      if (!this.fallback) return null;
+    }
+    const ctx = this.fallback;
+    if (ctx.canvas.width !== width || ctx.canvas.height !== height) {
+      ctx.canvas.width = width;
+      ctx.canvas.height = height;
+    }
+    const vw = video.videoWidth;
+    const vh = video.videoHeight;
+    const [cx, cy, cw, ch] = coverCrop(vw, vh, options.aspect ?? width / height);
+    const [sx, sy, sw, sh] = options.crop ?? [0, 0, 1, 1];
+    ctx.drawImage(video, (cx + sx * cw) * vw, (cy + sy * ch) * vh, sw * cw * vw, sh * ch * vh, 0, 0, width, height);
+    return ctx;
+  }
+
+  // ─── Subscriptions ───────────────────────────────────────────
+
+  private acquire(spec: SampleSpec): Entry {
+    const key = specKey(spec);
+    let entry = this.entries.get(key);
+    if (!entry) {
+      // Copied down to the crop and uniforms, so the caller can't change them under the key
+      const copy: SampleSpec = { ...spec, crop: spec.crop && [...spec.crop], uniforms: spec.uniforms && { ...spec.uniforms } };
+      entry = { spec: copy, refs: 0, video: null, frame: -1, data: null };
+      this.entries.set(key, entry);
+    }
+    entry.refs++;
+    return entry;
+  }
+
+  private release(entry: Entry) {
+    if (--entry.refs > 0) return;
+    this.entries.delete(specKey(entry.spec));
+  }
+}
+
+// ─── CPU passes ────────────────────────────────────────────────
+// The shader passes in gl-compositor.ts, over RGBA rows in place
+
+type Pass2D = (rgba: Uint8ClampedArray, width: number, height: number, uniforms: Record<string, number>) => void;
+
+const luma = (d: Uint8ClampedArray, i: number) => d[i] * 0.299 + d[i + 1] * 0.587 + d[i + 2] * 0.114;
+
+const PASSES_2D: Record<Exclude<PassName, 'copy'>, Pass2D> = {
+  threshold(d, width, height, { u_level = 0 }) {
+    for (let i = 0; i < width * height * 4; i += 4) {
+      const v = luma(d, i) >= u_level ? 255 : 0;
+      d[i] = d[i + 1] = d[i + 2] = d[i + 3] = v;
+    }
+  },
+
+  edge(d, width, height, { u_threshold = 0, u_levels = 2 }) {
+    const gray = new Float32Array(width * height);
+    for (let i = 0; i < gray.length; i++) gray[i] = luma(d, i * 4);
+    // Clamped at the borders, like the texture
+    const at = (x: number, y: number) =>
+      gray[Math.max(0, Math.min(y, height - 1)) * width + Math.max(0, Math.min(x, width - 1))];
+    const band = 255 / (u_levels - 1);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const gx = -at(x - 1, y - 1) - 2 * at(x - 1, y) - at(x - 1, y + 1) + at(x + 1, y - 1) + 2 * at(x + 1, y) + at(x + 1, y + 1);
+        const gy = -at(x - 1, y - 1) - 2 * at(x, y - 1) - at(x + 1, y - 1) + at(x - 1, y + 1) + 2 * at(x, y + 1) + at(x + 1, y + 1);
+        const mag = Math.hypot(gx, gy);
+        const burn = mag > u_threshold ? 1 - Math.min(1, mag / 255) : 1;
+        const i = (y * width + x) * 4;
+        for (let c = 0; c < 3; c++) d[i + c] = Math.round(d[i + c] / band) * band * burn;
+        d[i + 3] = 255;
+      }
+    }
+  },
+
+  dither(d, width, height) {
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const bx = x & 7;
+        const xy = bx ^ (y & 7);
+        const bayer = ((xy & 1) << 5) | ((bx & 1) << 4) | ((xy & 2) << 2) | ((bx & 2) << 1) | ((xy & 4) >> 1) | ((bx & 4) >> 2);
+        const i = (y * width + x) * 4;
+        const level = Math.max(0, Math.min(Math.floor((luma(d, i) / 255) * 2 + bayer / 64), 2));
+        d[i] = d[i + 1] = d[i + 2] = level * 127.5;
+        d[i + 3] = 255;
+      }
+    }
+  },
+};
+
+function specKey({ width, height, format, pass = 'copy', aspect, crop, uniforms }: SampleSpec): string {
+  const named = uniforms ? Object.keys(uniforms).sort().map((k) => `${k}=${uniforms[k]}`) : [];
+  return `${pass}/${format}/${width}x${height}/${aspect ?? ''}/${crop?.join(',') ?? ''}/${named.join(',')}`;
+}
+
+let shared: FrameSampler | undefined;
+
+/** The sampler every overlay shares */
+export function getSampler(): FrameSampler {
+  shared ??= new FrameSampler(getCompositor());
+  return shared;
+}
@@ -0,0 +1,306 @@
+/**
+ * WebGL compositor.
+ * One WebGL2 context shared by every video overlay, behind the frame
+ * sampler. The active video is uploaded as a texture once per video
+ * frame, however many overlays sample it, and each effect is a fragment
+ * shader pass rendered at the overlay's sample size into the one shared
+ * output, whose frame is then handed to the overlay's canvas as a bitmap
+ * (a transfer, not a copy). Effects that need numbers back on the CPU
+ * (tracking hotspots, dither cells, dither color) read back a few pixels
+ * of a pass instead of a whole frame.
+ */
+
+export type PassName = 'copy' | 'threshold' | 'edge' | 'dither';
+
+export interface PassOptions {
+  /** Part of the cover-fit frame to sample, as fractions [x, y, w, h] */
+  crop?: [number, number, number, number];
+  /** Aspect ratio to cover-fit the video to (defaults to the pass size) */
+  aspect?: number;
+  /** The pass's own float uniforms, by name */
+  uniforms?: Record<string, number>;
+  /** Id of the video's current frame; the texture is re-uploaded when it changes (defaults to its currentTime) */
+  frame?: number;
+}
+
+interface Program {
+  program: WebGLProgram;
+  uniforms: Map<string, WebGLUniformLocation | null>;
+}
+
+const VERTEX = `#version 300 es
+in vec2 a_pos;
+uniform vec4 u_crop;
+out vec2 v_uv;
+void main() {
+  vec2 t = a_pos * 0.5 + 0.5;
+  // Texture row 0 is the top of the frame
+  v_uv = u_crop.xy + vec2(t.x, 1.0 - t.y) * u_crop.zw;
+  gl_Position = vec4(a_pos, 0.0, 1.0);
+}`;
+
+const HEADER = `#version 300 es
+precision highp float;
+precision highp int;
+uniform sampler2D u_video;
+/** One output pixel, in texture coordinates */
+uniform vec2 u_texel;
+/** Output size in pixels */
+uniform vec2 u_size;
+in vec2 v_uv;
+out vec4 color;
+const vec3 LUMA = vec3(0.299, 0.587, 0.114);
+`;
+
+const FRAGMENT: Record<PassName, string> = {
+  copy: `${HEADER}
+void main() {
+  color = vec4(texture(u_video, v_uv).rgb, 1.0);
+}`,
+
+  // Bright pixels → solid white, dark → transparent
+  threshold: `${HEADER}
+uniform float u_level;
+void main() {
+  float l = dot(texture(u_video, v_uv).rgb, LUMA) * 255.0;
+  color = l >= u_level ? vec4(1.0) : vec4(0.0);
+}`,
+
+  // Posterize, then burn Sobel edges in as dark outlines
+  edge: `${HEADER}
+uniform float u_threshold;
+uniform float u_levels;
+float luma(vec2 uv) {
+  return dot(texture(u_video, uv).rgb, LUMA) * 255.0;
+}
+void main() {
+  float band = 1.0 / (u_levels - 1.0);
+  vec3 c = floor(texture(u_video, v_uv).rgb / band + 0.5) * band;
+  vec2 dx = vec2(u_texel.x, 0.0);
+  vec2 dy = vec2(0.0, u_texel.y);
+  float tl = luma(v_uv - dx - dy), tc = luma(v_uv - dy), tr = luma(v_uv + dx - dy);
+  float ml = luma(v_uv - dx), mr = luma(v_uv + dx);
+  float bl = luma(v_uv - dx + dy), bc = luma(v_uv + dy), br = luma(v_uv + dx + dy);
+  float gx = -tl - 2.0 * ml - bl + tr + 2.0 * mr + br;
+  float gy = -tl - 2.0 * tc - tr + bl + 2.0 * bc + br;
+  float mag = length(vec2(gx, gy));
+  if (mag > u_threshold) c *= 1.0 - min(1.0, mag / 255.0);
+  color = vec4(c, 1.0);
+}`,
+
+  // 8×8 ordered dither to three gray levels: black, mid, white
+  dither: `${HEADER}
+void main() {
+  ivec2 p = ivec2(gl_FragCoord.x, u_size.y - gl_FragCoord.y);
+  int x = p.x & 7;
+  int xy = x ^ (p.y & 7);
+  int bayer = ((xy & 1) << 5) | ((x & 1) << 4) | ((xy & 2) << 2) | ((x & 2) << 1) | ((xy & 4) >> 1) | ((x & 4) >> 2);
+  float l = dot(texture(u_video, v_uv).rgb, LUMA);
+  float level = clamp(floor(l * 2.0 + float(bayer) / 64.0), 0.0, 2.0);
+  color = vec4(vec3(level / 2.0), 1.0);
+}`,
+};
+
+export class GLCompositor {
+  private canvas: OffscreenCanvas;
+  private gl: WebGL2RenderingContext;
+  private programs = new Map<PassName, Program>();
+  private texture: WebGLTexture | null = null;
+  /** Video and frame currently in the texture */
+  private video: HTMLVideoElement | null = null;
+  private videoFrame = -1;
+  private lost = false;
+  private pixels = new Uint8Array(0);
+
+  constructor(gl: WebGL2RenderingContext) {
+    this.gl = gl;
+    this.canvas = gl.canvas as OffscreenCanvas;
+    this.canvas.addEventListener('webglcontextlost', (e) => {
+      e.preventDefault();
+      this.lost = true;
+    });
+    this.canvas.addEventListener('webglcontextrestored', () => {
+      this.lost = false;
+      this.setup();
+    });
+    this.setup();
+  }
+
+  /**
+   * Render `pass` over `video` at `width`×`height` and hand the frame to
+   * `target`, whose canvas shows it stretched over its whole box (the
+   * overlay's CSS keeps that unsmoothed). Returns false if nothing could
+   * be drawn.
+   */
+  blit(
+    target: ImageBitmapRenderingContext,
+    video: HTMLVideoElement,
+    pass: PassName,
+    width: number,
+    height: number,
+    options: PassOptions = {},
+  ): boolean {
+    if (!this.render(video, pass, width, height, options)) return false;
+    target.transferFromImageBitmap(this.canvas.transferToImageBitmap());
+    return true;
+  }
+
+  /**
+   * Render `pass` over `video` at `width`×`height` and read it back as
+   * RGBA rows, top row first. The returned buffer is reused by the next read.
+   */
+  read(
+    video: HTMLVideoElement,
+    pass: PassName,
+    width: number,
+    height: number,
+    options: PassOptions = {},
+  ): Uint8Array | null {
+    if (!this.render(video, pass, width, height, options)) return null;
+    const gl = this.gl;
+    const size = width * height * 4;
+    if (this.pixels.length < size * 2) this.pixels = new Uint8Array(size * 2);
+    const raw = this.pixels.subarray(size, size * 2);
+    gl.readPixels(0, 0, width, height, gl.RGBA, gl.UNSIGNED_BYTE, raw);
+
+    // GL reads bottom row first
+    const rows = this.pixels.subarray(0, size);
+    const stride = width * 4;
+    for (let y = 0; y < height; y++) {
+      rows.set(raw.subarray((height - 1 - y) * stride, (height - y) * stride), y * stride);
+    }
+    return rows;
+  }
+
+  // ─── Rendering ───────────────────────────────────────────────
+
+  private render(video: HTMLVideoElement, pass: PassName, width: number, height: number, options: PassOptions): boolean {
+    if (this.lost || width < 1 || height < 1 || !video.videoWidth || !video.videoHeight) return false;
+    const gl = this.gl;
+    const program = this.programs.get(pass);
+    if (!program) return false;
+
+    // Exactly the pass size: a transfer takes the whole drawing buffer, and
+    // leaves a fresh one behind whether or not the size changes
+    if (this.canvas.width !== width || this.canvas.height !== height) {
+      this.canvas.width = width;
+      this.canvas.height = height;
+    }
+
+    this.upload(video, options.frame ?? video.currentTime);
+
+    const [cx, cy, cw, ch] = coverCrop(video.videoWidth, video.videoHeight, options.aspect ?? width / height);
+    const [sx, sy, sw, sh] = options.crop ?? [0, 0, 1, 1];
+    const crop = [cx + sx * cw, cy + sy * ch, sw * cw, sh * ch];
+
+    gl.viewport(0, 0, width, height);
+    gl.useProgram(program.program);
+    gl.uniform1i(this.uniform(program, 'u_video'), 0);
+    gl.uniform4f(this.uniform(program, 'u_crop'), crop[0], crop[1], crop[2], crop[3]);
+    gl.uniform2f(this.uniform(program, 'u_texel'), crop[2] / width, crop[3] / height);
+    gl.uniform2f(this.uniform(program, 'u_size'), width, height);
+    for (const [name, value] of Object.entries(options.uniforms ?? {})) {
+      gl.uniform1f(this.uniform(program, name), value);
+    }
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+    return true;
+  }
+
+  /** Upload the video's current frame, unless it's already in the texture */
+  private upload(video: HTMLVideoElement, frame: number) {
+    if (video === this.video && frame === this.videoFrame) return;
+    const gl = this.gl;
+    gl.bindTexture(gl.TEXTURE_2D, this.texture);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, video);
+    this.video = video;
+    this.videoFrame = frame;
+  }
+
+  private uniform(program: Program, name: string): WebGLUniformLocation | null {
+    let location = program.uniforms.get(name);
+    if (location === undefined) {
+      location = this.gl.getUniformLocation(program.program, name);
+      program.uniforms.set(name, location);
+    }
+    return location;
+  }
+
+  // ─── Setup ───────────────────────────────────────────────────
+
+  /** Build the quad, texture and programs (again, after a context loss) */
+  private setup() {
+    const gl = this.gl;
+    this.video = null;
+    this.videoFrame = -1;
+
+    const vao = gl.createVertexArray();
+    gl.bindVertexArray(vao);
+    gl.bindBuffer(gl.ARRAY_BUFFER, gl.createBuffer());
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
+
+    this.texture = gl.createTexture();
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, this.texture);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+
+    this.programs.clear();
+    for (const pass of Object.keys(FRAGMENT) as PassName[]) {
+      const program = this.link(FRAGMENT[pass]);
+      const pos = gl.getAttribLocation(program, 'a_pos');
+      gl.enableVertexAttribArray(pos);
+      gl.vertexAttribPointer(pos, 2, gl.FLOAT, false, 0, 0);
+      this.programs.set(pass, { program, uniforms: new Map() });
+    }
+  }
+
+  private link(fragment: string): WebGLProgram {
+    const gl = this.gl;
+    const program = gl.createProgram()!;
+    gl.attachShader(program, this.compile(gl.VERTEX_SHADER, VERTEX));
+    gl.attachShader(program, this.compile(gl.FRAGMENT_SHADER, fragment));
+    gl.linkProgram(program);
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS) && !gl.isContextLost()) {
+      throw new Error(`Shader link failed: ${gl.getProgramInfoLog(program)}`);
+    }
+    return program;
+  }
+
+  private compile(type: number, source: string): WebGLShader {
+    const gl = this.gl;
+    const shader = gl.createShader(type)!;
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS) && !gl.isContextLost()) {
+      throw new Error(`Shader compile failed: ${gl.getShaderInfoLog(shader)}`);
+    }
+    return shader;
+  }
+}
+
+/** object-fit: cover — the part of a vw×vh frame visible at `aspect`, as fractions */
+export function coverCrop(vw: number, vh: number, aspect: number): [number, number, number, number] {
+  const videoRatio = vw / vh;
+  if (videoRatio > aspect) {
+    const w = aspect / videoRatio;
+    return [(1 - w) / 2, 0, w, 1];
+  }
+  const h = videoRatio / aspect;
+  return [0, (1 - h) / 2, 1, h];
+}
+
+let shared: GLCompositor | null | undefined;
+
+/** The compositor every overlay shares, or null without WebGL2 (in an OffscreenCanvas) */
+export function getCompositor(): GLCompositor | null {
+  if (shared === undefined) {
+    const gl = typeof OffscreenCanvas === 'undefined'
+      ? null
+      : new OffscreenCanvas(1, 1).getContext('webgl2', { alpha: true, antialias: false, depth: false });
+    shared = gl ? new GLCompositor(gl) : null;
+    if (!shared) console.warn('WebGL2 unavailable — video overlays are rendered on the CPU');
+  }
+  return shared;
+}
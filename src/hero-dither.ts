@@ -5,6 +5,7 @@
 
 import Hls from 'hls.js';
 import { config } from './config';
+import { getSampler } from './frame-sampler';
 
 const SAMPLE_SCALE = 0.1;
 
@@ -22,11 +23,11 @@ const BAYER8 = [
 type ShapeMode = 'tall-rect' | 'cross' | 'circle';
 const SHAPES: ShapeMode[] = ['tall-rect', 'cross', 'circle'];
 
-function sampleComplementaryColor(d: Uint8ClampedArray, len: number): string {
+function sampleComplementaryColor(d: Uint8Array, len: number): string {
   let rSum = 0, gSum = 0, bSum = 0;
   const step = 16;
   let count = 0;
-  for (let i = 0; i < len; i += 4 * step) {
+  for (let i = 0; i < len; i += 3 * step) {
     rSum += d[i]; gSum += d[i + 1]; bSum += d[i + 2]; count++;
   }
   if (count === 0) return 'rgb(255,50,200)';
@@ -108,39 +109,33 @@ export async function initHeroDither(canvas: HTMLCanvasElement) {
   }
   if (!frame) return;
 
-  // Sample to offscreen
+  // Cover-fit samples from the shared sampler (one-off: the frame is a still)
   const ow = Math.max(1, Math.floor(vw * SAMPLE_SCALE));
   const oh = Math.max(1, Math.floor(vh * SAMPLE_SCALE));
-  const offscreen = document.createElement('canvas');
-  offscreen.width = ow;
-  offscreen.height = oh;
-  const offCtx = offscreen.getContext('2d', { willReadFrequently: true })!;
-
-  // Cover-fit
-  const fw = frame.videoWidth || ow;
-  const fh = frame.videoHeight || oh;
-  const canvasRatio = ow / oh;
-  const videoRatio = fw / fh;
-  let sx = 0, sy = 0, sw = fw, sh = fh;
-  if (videoRatio > canvasRatio) { sw = fh * canvasRatio; sx = (fw - sw) / 2; }
-  else { sh = fw / canvasRatio; sy = (fh - sh) / 2; }
-  offCtx.drawImage(frame, sx, sy, sw, sh, 0, 0, ow, oh);
-
-  const imageData = offCtx.getImageData(0, 0, ow, oh);
-  const d = imageData.data;
+  const sampler = getSampler();
+  const rgbSamples = sampler.subscribe({ width: ow, height: oh, format: 'rgb' });
+  const lumaSamples = sampler.subscribe({ width: ow, height: oh, format: 'luma' });
+  const rgb = rgbSamples.read(frame);
+  const luma = lumaSamples.read(frame);
+  rgbSamples.unsubscribe();
+  lumaSamples.unsubscribe();
+
+  // Clean up video
+  frame.src = '';
+  frame.load();
+  if (!rgb || !luma) return;
 
   // Get color and shape
-  const midColor = sampleComplementaryColor(d, d.length);
+  const midColor = sampleComplementaryColor(rgb, rgb.length);
   const shape = SHAPES[Math.floor(Math.random() * SHAPES.length)];
 
   // Compute dither levels
   const levels = new Uint8Array(ow * oh);
   for (let y = 0; y < oh; y++) {
     for (let x = 0; x < ow; x++) {
-      const i = (y * ow + x) * 4;
-      const luma = (d[i] * 0.299 + d[i + 1] * 0.587 + d[i + 2] * 0.114) / 255;
+      const l = luma[y * ow + x] / 255;
       const bayer = BAYER8[(y & 7) * 8 + (x & 7)];
-      const dithered = luma * 2 + (bayer - 0.5);
+      const dithered = l * 2 + (bayer - 0.5);
       levels[y * ow + x] = Math.max(0, Math.min(2, Math.round(dithered)));
     }
   }
@@ -176,10 +171,6 @@ export async function initHeroDither(canvas: HTMLCanvasElement) {
     }
     ctx.fill();
   }
-
-  // Clean up video
-  frame.src = '';
-  frame.load();
 }
 
 function loadFrame(url: string): Promise<HTMLVideoElement | null> {
@@ -0,0 +1,24 @@
+/**
+ * Invert overlay.
+ * Inverts and desaturates the video lanes with a CSS filter on their
+ * container — no canvas, so every other overlay still sits on top.
+ */
+
+export class InvertOverlay {
+  private container: HTMLElement;
+  private visible = false;
+
+  constructor(container: HTMLElement) {
+    this.container = container;
+  }
+
+  toggle(): boolean {
+    this.visible = !this.visible;
+    this.container.classList.toggle('invert', this.visible);
+    return this.visible;
+  }
+
+  destroy() {
+    this.container.classList.remove('invert');
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * Layer stack.
+ * Overlays stack in one explicit order, each with its own opacity and
+ * blend mode, instead of by fixed CSS z-indexes. The stack outlives
+ * tracks — each track's overlays attach to it as they're built — is
+ * edited from the fx-dialog, and persists in localStorage.
+ */
+
+export type BlendMode = 'normal' | 'screen' | 'multiply' | 'difference' | 'add';
+
+export const BLEND_MODES: BlendMode[] = ['normal', 'screen', 'multiply', 'difference', 'add'];
+
+/** One overlay's place in the stack */
+export interface Layer {
+  name: string;
+  /** 0–1 */
+  opacity: number;
+  blend: BlendMode;
+}
+
+const CSS_BLEND: Record<BlendMode, string> = {
+  normal: 'normal',
+  screen: 'screen',
+  multiply: 'multiply',
+  difference: 'difference',
+  add: 'plus-lighter',
+};
+
+const STORAGE_KEY = 'fx-layers';
+
+/** z-index of the bottom layer: above the video lanes, below the hero canvas */
+const BASE_Z = 50;
+
+export class LayerStack {
+  /** Bottom layer first */
+  private layers: Layer[];
+  private elements = new Map<string, HTMLElement>();
+
+  /** Fires after any change to the stack */
+  onChange: (() => void) | null = null;
+
+  /** `names` bottom first — the default order, before any saved one */
+  constructor(names: string[]) {
+    this.layers = names.map((name) => ({ name, opacity: 1, blend: 'normal' }));
+    this.load(readSaved(), false);
+  }
+
+  /** Layers bottom first */
+  get order(): readonly Layer[] {
+    return this.layers;
+  }
+
+  get(name: string): Layer | undefined {
+    return this.layers.find((l) => l.name === name);
+  }
+
+  /** Stack an overlay's element as layer `name` */
+  attach(name: string, element: HTMLElement) {
+    this.elements.set(name, element);
+    this.apply();
+  }
+
+  /** Forget every element (the track's overlays are being destroyed) */
+  detachAll() {
+    this.elements.clear();
+  }
+
+  /** Move a layer `delta` places up (+) or down (−) the stack */
+  move(name: string, delta: number) {
+    const from = this.layers.findIndex((l) => l.name === name);
+    if (from === -1) return;
+    const to = Math.max(0, Math.min(this.layers.length - 1, from + delta));
+    if (to === from) return;
+    const [layer] = this.layers.splice(from, 1);
+    this.layers.splice(to, 0, layer);
+    this.changed();
+  }
+
+  setOpacity(name: string, opacity: number) {
+    const layer = this.get(name);
+    if (!layer) return;
+    layer.opacity = Math.max(0, Math.min(1, opacity));
+    this.changed();
+  }
+
+  setBlend(name: string, blend: BlendMode) {
+    const layer = this.get(name);
+    if (!layer) return;
+    layer.blend = blend;
+    this.changed();
+  }
+
+  toJSON(): Layer[] {
+    return this.layers.map((l) => ({ ...l }));
+  }
+
+  /**
+   * Take order, opacity and blend from a saved stack. Layers it doesn't
+   * mention keep their relative order on top; ones it names that no
+   * longer exist, and entries that aren't layers at all, are dropped.
+   */
+  load(saved: Layer[], notify = true) {
+    const known = new Set(this.layers.map((l) => l.name));
+    const loaded: Layer[] = [];
+    for (const s of Array.isArray(saved) ? saved : []) {
+      if (!s || typeof s !== 'object' || typeof s.name !== 'string') continue;
+      if (!known.has(s.name) || loaded.some((l) => l.name === s.name)) continue;
+      loaded.push({
+        name: s.name,
+        opacity: typeof s.opacity === 'number' ? Math.max(0, Math.min(1, s.opacity)) : 1,
+        blend: BLEND_MODES.includes(s.blend) ? s.blend : 'normal',
+      });
+    }
+    this.layers = [...loaded, ...this.layers.filter((l) => !loaded.some((s) => s.name === l.name))];
+    if (notify) this.changed();
+  }
+
+  private changed() {
+    this.apply();
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.layers));
+    } catch {
+      // Private mode / storage full: the stack just won't persist
+    }
+    this.onChange?.();
+  }
+
+  private apply() {
+    this.layers.forEach((layer, i) => {
+      const el = this.elements.get(layer.name);
+      if (!el) return;
+      el.style.zIndex = String(BASE_Z + i);
+      el.style.opacity = String(layer.opacity);
+      el.style.mixBlendMode = CSS_BLEND[layer.blend];
+    });
+  }
+}
+
+function readSaved(): Layer[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+}
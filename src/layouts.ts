@@ -0,0 +1,57 @@
+/**
+ * Video lane layouts.
+ * Each layout arranges a number of lanes — every lane its own
+ * VideoPlayer with its own cut pattern — inside the video pane. The
+ * arrangement itself is CSS (keyed off `data-layout` on the container);
+ * this module picks the layout and falls back to fewer lanes when the
+ * pane is too small for the one asked for.
+ */
+
+import { config } from './config';
+
+export type LayoutName = 'single' | 'split' | 'quad' | 'pip';
+
+export interface Layout {
+  name: LayoutName;
+  lanes: number;
+  /** Narrowest pane (px) the layout still reads at */
+  minWidth: number;
+  /** What to use instead when the pane is narrower */
+  fallback?: LayoutName;
+}
+
+export const LAYOUTS: Record<LayoutName, Layout> = {
+  single: { name: 'single', lanes: 1, minWidth: 0 },
+  split: { name: 'split', lanes: 2, minWidth: 240, fallback: 'pip' },
+  quad: { name: 'quad', lanes: 4, minWidth: 480, fallback: 'split' },
+  pip: { name: 'pip', lanes: 2, minWidth: 160, fallback: 'single' },
+};
+
+const ORDER: LayoutName[] = ['single', 'split', 'quad', 'pip'];
+
+/** Layout asked for by `?layout=`, else the configured one */
+export function preferredLayout(): LayoutName {
+  const param = new URLSearchParams(window.location.search).get('layout');
+  return param && param in LAYOUTS ? (param as LayoutName) : config.layout;
+}
+
+/** The next layout in the cycle */
+export function nextLayout(name: LayoutName): LayoutName {
+  return ORDER[(ORDER.indexOf(name) + 1) % ORDER.length];
+}
+
+/** `name`, or the first fallback that fits a pane `width` px wide */
+export function fitLayout(name: LayoutName, width: number): Layout {
+  let layout = LAYOUTS[name];
+  while (width < layout.minWidth && layout.fallback) {
+    layout = LAYOUTS[layout.fallback];
+  }
+  return layout;
+}
+
+/** Smallest layout with room for `lanes` lanes (replaying a multi-lane take) */
+export function layoutForLanes(lanes: number): LayoutName {
+  if (lanes <= 1) return 'single';
+  if (lanes === 2) return 'split';
+  return 'quad';
+}
@@ -0,0 +1,186 @@
+/**
+ * Live beat tracking, in an AudioWorklet.
+ * The song analysis in beat-detect.ts, made incremental: the same
+ * energy-flux onset function is computed hop by hop as input arrives, the
+ * tempo is re-estimated every second by autocorrelating a sliding window
+ * of recent onsets, and a beat clock runs at that tempo — pulled toward
+ * each onset that lands near a beat, and stopped when the input goes
+ * quiet. Beats and onsets are posted to the main thread as they happen,
+ * stamped in AudioContext seconds.
+ */
+
+import { HOP_SIZE, WINDOW_SIZE, tempoFromOnsets } from './beat-detect';
+
+// AudioWorkletGlobalScope — not in the DOM typings
+declare const sampleRate: number;
+declare const currentFrame: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+declare function registerProcessor(name: string, processor: new () => AudioWorkletProcessor): void;
+
+export type LiveBeatMessage =
+  | { type: 'beat'; time: number; confidence: number; bpm: number }
+  | { type: 'onset'; time: number; strength: number };
+
+/** Name the processor registers under (live-input.ts creates it by this) */
+const PROCESSOR_NAME = 'live-beat';
+
+/** Seconds of onsets the tempo is estimated from, and how often */
+const TEMPO_WINDOW = 8;
+const TEMPO_INTERVAL = 1;
+
+/** A new tempo has to be estimated this many times running before it's taken */
+const TEMPO_AGREEMENT = 2;
+/** Estimates within this fraction of the current tempo just refine it */
+const TEMPO_TOLERANCE = 0.04;
+
+/** Per-hop decay of the running flux peak the onset function is normalized by */
+const PEAK_DECAY = 0.999;
+/** How far (normalized) an onset has to rise above the recent average */
+const ONSET_THRESHOLD = 0.15;
+/** Seconds of onset function the average is taken over */
+const ONSET_AVERAGE = 0.5;
+/** Shortest gap between onsets (seconds) */
+const MIN_ONSET_GAP = 0.1;
+
+/** Onsets within this fraction of a beat period from a beat pull the clock */
+const PHASE_WINDOW = 0.25;
+/** How much of the error each onset corrects */
+const PHASE_GAIN = 0.3;
+
+/** Seconds without an onset before the beat clock stops */
+const SILENCE = 4;
+
+class LiveBeatProcessor extends AudioWorkletProcessor {
+  private window = new Float32Array(WINDOW_SIZE);
+  /** Samples written to `window` (a ring) so far */
+  private written = 0;
+  private sinceHop = 0;
+  private lastEnergy = 0;
+  private peak = 1e-6;
+
+  private hopRate = sampleRate / HOP_SIZE;
+  /** Normalized onset function over the tempo window (a ring, by hop) */
+  private history = new Float32Array(Math.ceil(TEMPO_WINDOW * sampleRate / HOP_SIZE));
+  private hops = 0;
+  /** The last three frames of onset function, for peak picking */
+  private recent = [0, 0, 0];
+  private average = 0;
+  private lastOnset = -Infinity;
+
+  private period = 0;
+  private candidate = 0;
+  private agreement = 0;
+  /** AudioContext time of the next beat, or null while there's no beat */
+  private nextBeat: number | null = null;
+
+  process(inputs: Float32Array[][]): boolean {
+    const channels = inputs[0];
+    if (!channels || channels.length === 0) return true;
+    const length = channels[0].length;
+    for (let i = 0; i < length; i++) {
+      // Mix down like `mixChannels`
+      let sample = 0;
+      for (const channel of channels) sample += channel[i];
+      this.window[this.written++ % WINDOW_SIZE] = sample / channels.length;
+      if (++this.sinceHop < HOP_SIZE) continue;
+      this.sinceHop = 0;
+      if (this.written >= WINDOW_SIZE) this.hop((currentFrame + i) / sampleRate);
+    }
+    this.emitBeats((currentFrame + length) / sampleRate);
+    return true;
+  }
+
+  /** One step of the onset function; `now` is the time of its last sample */
+  private hop(now: number) {
+    let energy = 0;
+    for (let j = 0; j < WINDOW_SIZE; j++) energy += this.window[j] * this.window[j];
+    energy /= WINDOW_SIZE;
+    const flux = Math.max(0, energy - this.lastEnergy);
+    this.lastEnergy = energy;
+    // No whole song to normalize by — a slowly falling peak stands in
+    this.peak = Math.max(flux, this.peak * PEAK_DECAY);
+    const onset = flux / this.peak;
+
+    this.history[this.hops++ % this.history.length] = onset;
+    this.recent = [this.recent[1], this.recent[2], onset];
+
+    // Peak picking one hop late: the middle frame, if it tops both
+    // neighbours and the recent average by enough
+    const [before, middle, after] = this.recent;
+    const time = now - (WINDOW_SIZE / 2 + HOP_SIZE) / sampleRate;
+    if (
+      middle > before && middle >= after &&
+      middle > this.average + ONSET_THRESHOLD &&
+      time - this.lastOnset >= MIN_ONSET_GAP
+    ) {
+      this.lastOnset = time;
+      this.port.postMessage({ type: 'onset', time, strength: middle } satisfies LiveBeatMessage);
+      this.follow(time);
+    }
+    const k = 1 / (ONSET_AVERAGE * this.hopRate);
+    this.average += (onset - this.average) * k;
+
+    if (this.hops % Math.round(TEMPO_INTERVAL * this.hopRate) === 0 && this.hops >= this.history.length / 2) {
+      this.estimateTempo();
+    }
+  }
+
+  /** Re-estimate the tempo over the window, switching only once it's agreed on */
+  private estimateTempo() {
+    // Unroll the ring, oldest first
+    const size = Math.min(this.hops, this.history.length);
+    const onsets = new Float32Array(size);
+    for (let i = 0; i < size; i++) onsets[i] = this.history[(this.hops - size + i) % this.history.length];
+    const period = 60 / tempoFromOnsets(onsets, this.hopRate);
+
+    if (this.period > 0 && Math.abs(period - this.period) / this.period < TEMPO_TOLERANCE) {
+      this.period += (period - this.period) * 0.5;
+      this.agreement = 0;
+      return;
+    }
+    if (this.candidate > 0 && Math.abs(period - this.candidate) / this.candidate < TEMPO_TOLERANCE) {
+      this.agreement++;
+    } else {
+      this.candidate = period;
+      this.agreement = 1;
+    }
+    if (this.agreement >= TEMPO_AGREEMENT || this.period === 0) {
+      this.period = this.candidate;
+      this.agreement = 0;
+      // Restart the clock on the latest onset
+      if (this.nextBeat === null && this.lastOnset > -Infinity) this.nextBeat = this.lastOnset + this.period;
+    }
+  }
+
+  /** Pull the beat clock toward an onset near a beat, or start it on one */
+  private follow(time: number) {
+    if (this.period === 0) return;
+    if (this.nextBeat === null) {
+      this.nextBeat = time + this.period;
+      return;
+    }
+    // Nearest beat: the one coming up, or the one just played
+    const upcoming = this.nextBeat - time;
+    const error = upcoming > this.period / 2 ? this.period - upcoming : -upcoming;
+    if (Math.abs(error) < this.period * PHASE_WINDOW) this.nextBeat += error * PHASE_GAIN;
+  }
+
+  /** Post every beat the clock has passed by `now` */
+  private emitBeats(now: number) {
+    if (this.nextBeat === null) return;
+    if (now - this.lastOnset > SILENCE) {
+      this.nextBeat = null;
+      return;
+    }
+    while (this.nextBeat <= now) {
+      const time = this.nextBeat;
+      const confidence = Math.min(1, Math.max(...this.recent));
+      this.port.postMessage({ type: 'beat', time, confidence, bpm: 60 / this.period } satisfies LiveBeatMessage);
+      this.nextBeat += this.period;
+    }
+  }
+}
+
+registerProcessor(PROCESSOR_NAME, LiveBeatProcessor);
@@ -0,0 +1,116 @@
+/**
+ * Live audio input.
+ * For gigs: the show runs against a microphone or line-in instead of a
+ * decoded song. The input feeds the live beat tracker (an AudioWorklet,
+ * live-beat-processor.ts), whose beats and onsets arrive here as they
+ * happen, in song time — seconds since the input was opened. It stands in
+ * for `AudioTransport` with no end and no seeking, and isn't played out
+ * loud (the room already hears it); `output` still carries it for renders.
+ */
+
+import processorUrl from './live-beat-processor.ts?worker&url';
+import type { SongClock } from './audio-transport';
+import type { BeatData } from './beat-detect';
+import type { LiveBeatMessage } from './live-beat-processor';
+
+/** Registered by live-beat-processor.ts */
+const PROCESSOR_NAME = 'live-beat';
+
+export class LiveInput implements SongClock {
+  private audioCtx: AudioContext;
+  private stream: MediaStream;
+  private source: MediaStreamAudioSourceNode;
+  private tracker: AudioWorkletNode;
+  /** Keeps the tracker pulled by the graph without making a sound */
+  private sink: GainNode;
+
+  readonly output: GainNode;
+  readonly duration = Infinity;
+  startTime = 0;
+
+  /** A beat at song time `time`, with its onset strength and the tempo */
+  onBeat: ((time: number, confidence: number, bpm: number) => void) | null = null;
+  /** An onset (a hit of any kind) at song time `time` */
+  onOnset: ((time: number, strength: number) => void) | null = null;
+  /** Never fired by the input — it doesn't end; the transport's stop control calls it */
+  onEnded: (() => void) | null = null;
+  /** Never fires — live input can't seek */
+  onSeek: ((startTime: number) => void) | null = null;
+
+  private constructor(audioCtx: AudioContext, stream: MediaStream) {
+    this.audioCtx = audioCtx;
+    this.stream = stream;
+    this.source = audioCtx.createMediaStreamSource(stream);
+    this.output = audioCtx.createGain();
+    this.source.connect(this.output);
+
+    this.tracker = new AudioWorkletNode(audioCtx, PROCESSOR_NAME);
+    this.sink = audioCtx.createGain();
+    this.sink.gain.value = 0;
+    this.source.connect(this.tracker);
+    this.tracker.connect(this.sink);
+    this.sink.connect(audioCtx.destination);
+
+    this.tracker.port.onmessage = (e: MessageEvent<LiveBeatMessage>) => {
+      const msg = e.data;
+      if (msg.type === 'beat') this.onBeat?.(msg.time - this.startTime, msg.confidence, msg.bpm);
+      else this.onOnset?.(msg.time - this.startTime, msg.strength);
+    };
+  }
+
+  /**
+   * Ask for the microphone / line-in and start the beat tracker. Browser
+   * voice processing is turned off — it would flatten the very hits the
+   * tracker listens for.
+   */
+  static async open(audioCtx: AudioContext): Promise<LiveInput> {
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+    });
+    try {
+      await audioCtx.audioWorklet.addModule(processorUrl);
+    } catch (err) {
+      stream.getTracks().forEach((t) => t.stop());
+      throw err;
+    }
+    return new LiveInput(audioCtx, stream);
+  }
+
+  get elapsed(): number {
+    return Math.max(0, this.audioCtx.currentTime - this.startTime);
+  }
+
+  /** Song time starts now (there's nothing to skip to) */
+  play() {
+    this.startTime = this.audioCtx.currentTime;
+  }
+
+  /** Live input can't seek */
+  seek() {}
+
+  stop() {
+    this.tracker.port.onmessage = null;
+    this.source.disconnect();
+    this.tracker.disconnect();
+    this.sink.disconnect();
+    this.output.disconnect();
+    this.stream.getTracks().forEach((t) => t.stop());
+  }
+}
+
+/**
+ * Beat data for live input before any beats have come in: the players
+ * get their beats one at a time as they happen (`VideoPlayer.addBeat`).
+ */
+export function liveBeatData(): BeatData {
+  return {
+    bpm: 0,
+    beats: [],
+    confidence: [],
+    tempo: [],
+    meter: 4,
+    downbeats: [],
+    sections: [],
+    events: { kick: [], snare: [], hat: [] },
+  };
+}
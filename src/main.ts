@@ -1,14 +1,60 @@
 import './style.css';
 import { config } from './config';
-import { detectBeats } from './beat-detect';
+import { detectBeatsInWorker } from './beat-worker-client';
+import { loadBeatMap } from './beat-map';
 import { VideoPlayer } from './player';
-import { TrackingOverlay } from './tracking-overlay';
-import { ThresholdOverlay } from './threshold-overlay';
-import { DitherOverlay } from './dither-overlay';
+import { loadClips, loadPlaylist, trackLabel, type Track } from './playlist';
+import {
+  EFFECTS,
+  effectForKey,
+  isOverlayState,
+  layerNames,
+  paramSchemas,
+  renderFxDialog,
+  renderFxPad,
+  renderParamPanel,
+  type Overlay,
+} from './effects';
+import { LayerStack } from './layers';
+import { ParamStore } from './params';
+import { SceneBank, pinnedParams, renderSceneRow, sceneForKey, type Scene } from './scenes';
+import { openMidi, renderMidiRow, type MidiTarget } from './midi';
+import {
+  NO_CORRECTION,
+  TapTempo,
+  applyCorrection,
+  loadCorrection,
+  nudge,
+  renderTempoRow,
+  saveCorrection,
+  stepOctave,
+  tempoForKey,
+  type TempoAction,
+  type TempoCorrection,
+} from './tempo';
+import { EventClock } from './event-clock';
+import { AudioTransport, type SongClock } from './audio-transport';
+import { LiveInput, liveBeatData } from './live-input';
+import type { BeatData } from './beat-detect';
+import { LAYOUTS, fitLayout, layoutForLanes, nextLayout, preferredLayout, type LayoutName } from './layouts';
+import { RenderRecorder, downloadRender } from './render-export';
 import { initHeroDither } from './hero-dither';
+import { createRandom, seedFromUrl } from './random';
+import {
+  EditTimeline,
+  downloadTimeline,
+  loadTake,
+  parseTake,
+  type CutEvent,
+  type EditTimelineJSON,
+  type ExportFormat,
+  type FxEvent,
+  type OverlayStates,
+} from './edit-timeline';
 
 const heroCanvas = document.getElementById('hero-canvas') as HTMLCanvasElement;
 const playBtn = document.getElementById('play-btn')!;
+const liveBtn = document.getElementById('live-btn')!;
 
 // Render hero dither after layout is ready
 requestAnimationFrame(() => initHeroDither(heroCanvas));
@@ -17,241 +63,804 @@ const transport = document.getElementById('transport')!;
 const transportPlaypause = document.getElementById('transport-playpause')!;
 const transportTime = document.getElementById('transport-time')!;
 const transportDuration = document.getElementById('transport-duration')!;
+const transportTitle = document.getElementById('transport-title')!;
 const transportTrack = document.getElementById('transport-track')!;
 const transportProgress = document.getElementById('transport-progress')!;
 const transportFx = document.getElementById('transport-fx')!;
+const transportLayout = document.getElementById('transport-layout')!;
 const fxDialog = document.getElementById('fx-dialog')!;
+const exportBtns = document.querySelectorAll<HTMLButtonElement>('.export-btn');
+const renderBtn = document.getElementById('render-btn')!;
+const fxPad = document.getElementById('fx-pad')!;
+const paramPanel = document.getElementById('param-panel')!;
+
+/** Stacking order, opacity and blend of the overlays — kept across tracks */
+const layers = new LayerStack(layerNames());
+
+/** Every effect's param values — kept across tracks */
+const params = new ParamStore(paramSchemas());
+
+// Every registered effect gets a pad button, a dialog row and its params in the panel
+renderFxPad(fxPad);
+renderFxDialog(fxDialog, layers);
+renderParamPanel(paramPanel, params);
+const padBtns = fxPad.querySelectorAll<HTMLButtonElement>('.pad-btn[data-action]');
+const sceneBtn = document.getElementById('pad-scene')!;
+const sceneLabel = sceneBtn.querySelector('span')!;
+
+/** Saved FX scenes — kept across tracks */
+const scenes = new SceneBank();
+/** The playing track's scene recall and save (null between tracks) */
+let sceneControls: { recall(index: number): void; save(name: string): void } | null = null;
+const markScene = renderSceneRow(
+  fxDialog,
+  scenes,
+  (index) => sceneControls?.recall(index),
+  (name) => sceneControls?.save(name),
+);
+
+/** The playing track's tempo correction (null between tracks and in replays) */
+let tempoActions: ((action: TempoAction) => void) | null = null;
+const markTempo = renderTempoRow(fxDialog, (action) => tempoActions?.(action));
+
+/** The playing track's MIDI actions — toggles, cuts, scenes (null between tracks) */
+let midiActions: ((target: MidiTarget) => void) | null = null;
+let midiRequested = false;
 
 let players: VideoPlayer[] = [];
-let overlay: TrackingOverlay | null = null;
-let threshold: ThresholdOverlay | null = null;
-let dither: DitherOverlay | null = null;
+/** The current track's effects, by registry name */
+const effects = new Map<string, Overlay>();
+let events: EventClock | null = null;
+
+/** The current (or last finished) take, and how far into the song it got */
+let timeline: EditTimeline | null = null;
+let timelineEnd = () => 0;
+/** A recorded take to replay instead of a fresh edit (`?take=` or a dropped JSON export) */
+let take: EditTimelineJSON | null = null;
 
 let paused = false;
 
+/** Seed for every random choice in the edit — shared links replay the same cut */
+const editSeed = seedFromUrl();
+
+/** Seconds skipped by the arrow keys */
+const SEEK_STEP = 5;
+
+exportBtns.forEach((btn) => {
+  btn.onclick = () => {
+    if (timeline) downloadTimeline(timeline, btn.dataset.format as ExportFormat, timelineEnd());
+  };
+});
+
 function formatTime(s: number): string {
   const m = Math.floor(s / 60);
   const sec = Math.floor(s % 60);
   return `${m}:${sec.toString().padStart(2, '0')}`;
 }
 
-function getLaneCount(): number {
-  return 1;
-}
+// Drop an exported take (JSON) on the landing screen to replay it
+window.addEventListener('dragover', (e) => e.preventDefault());
+window.addEventListener('drop', async (e) => {
+  e.preventDefault();
+  const file = e.dataTransfer?.files[0];
+  if (!file || playBtn.classList.contains('hidden')) return;
+  try {
+    take = parseTake(JSON.parse(await file.text()), isOverlayState);
+    playBtn.textContent = 'Replay take';
+  } catch (err) {
+    showError(err);
+  }
+});
 
 playBtn.addEventListener('click', async () => {
-  playBtn.classList.add('hidden');
-  heroCanvas.classList.add('hidden');
-  loading.style.display = 'block';
+  hideLanding();
 
   try {
     // 1. Create audio context and unlock it (must be before any await on iOS)
-    const audioCtx = new AudioContext();
-    await audioCtx.resume();
-
-    // Play a silent buffer to fully unlock audio on iOS
-    const silent = audioCtx.createBuffer(1, 1, audioCtx.sampleRate);
-    const silentSrc = audioCtx.createBufferSource();
-    silentSrc.buffer = silent;
-    silentSrc.connect(audioCtx.destination);
-    silentSrc.start();
-
-    // 2. Fetch and decode the song
-    loading.textContent = 'Loading song...';
-    const response = await fetch(config.songPath);
-    const arrayBuffer = await response.arrayBuffer();
-    const audioBuffer = await audioCtx.decodeAudioData(arrayBuffer);
-
-    // 3. Detect beats
-    loading.textContent = 'Detecting beats...';
-    const { beats } = detectBeats(audioBuffer);
-
-
-    // 4. Fetch clip manifest
-    loading.textContent = 'Loading clips...';
-    const manifestRes = await fetch(config.manifestPath);
-    const clips: string[] = await manifestRes.json();
-
-    if (clips.length === 0) {
-      throw new Error('No clips found. Run: npm run convert');
+    const audioCtx = await unlockAudio();
+    connectMidi();
+
+    // 2. Load the playlist and play it from the top — or just the song of a recorded take
+    loading.textContent = 'Loading playlist...';
+    const tracks = await loadPlaylist();
+    const takeUrl = new URLSearchParams(window.location.search).get('take');
+    if (!take && takeUrl) take = await loadTake(takeUrl, isOverlayState);
+
+    if (take) {
+      const song = take.song;
+      const track = tracks.find((t) => t.src === song) ?? { title: take.title, src: song };
+      await playTrack(audioCtx, [track], 0, take);
+    } else {
+      await playTrack(audioCtx, tracks, 0);
     }
 
-    // 5. Initialize video player lanes
-    const videoContainer = document.getElementById('video-container')!;
+  } catch (err) {
+    showError(err);
+  }
+});
+
+// Live input: the mic / line-in drives the cuts instead of a song
+liveBtn.addEventListener('click', async () => {
+  hideLanding();
+
+  try {
+    const audioCtx = await unlockAudio();
+    connectMidi();
+    loading.textContent = 'Opening audio input...';
+    const live = await LiveInput.open(audioCtx);
+    await playTrack(audioCtx, [{ title: 'Live input', src: 'live' }], 0, undefined, live);
+  } catch (err) {
+    showError(err);
+  }
+});
+
+function hideLanding() {
+  playBtn.classList.add('hidden');
+  liveBtn.classList.add('hidden');
+  heroCanvas.classList.add('hidden');
+  loading.style.display = 'block';
+}
+
+/** A running AudioContext, unlocked for iOS */
+async function unlockAudio(): Promise<AudioContext> {
+  const audioCtx = new AudioContext();
+  await audioCtx.resume();
+
+  // Play a silent buffer to fully unlock audio on iOS
+  const silent = audioCtx.createBuffer(1, 1, audioCtx.sampleRate);
+  const silentSrc = audioCtx.createBufferSource();
+  silentSrc.buffer = silent;
+  silentSrc.connect(audioCtx.destination);
+  silentSrc.start();
+  return audioCtx;
+}
+
+/**
+ * Ask for MIDI once, on the first play (browsers may prompt). Controllers
+ * fire the playing track's actions and turn params whether or not a track
+ * is playing, since the params outlive tracks.
+ */
+function connectMidi() {
+  if (midiRequested) return;
+  midiRequested = true;
+  openMidi().then((midi) => {
+    if (!midi) return;
+    renderMidiRow(fxDialog, midi);
+    midi.onAction = (target) => midiActions?.(target);
+    midi.onParam = setMidiParam;
+  });
+}
+
+/** A CC at `value` 0–1 across a param's range, or through its choices */
+function setMidiParam(target: MidiTarget, value: number) {
+  const [, effect, key] = target.split(':');
+  const param = params.schema(effect)?.[key];
+  if (param?.type === 'number') {
+    params.set(effect, key, param.min + value * (param.max - param.min));
+  } else if (param?.type === 'select') {
+    params.set(effect, key, param.options[Math.min(Math.floor(value * param.options.length), param.options.length - 1)]);
+  }
+}
+
+function showError(err: unknown) {
+  console.error('Startup error:', err);
+  loading.style.display = 'block';
+  loading.textContent = `Error: ${err instanceof Error ? err.message : 'Unknown error'}`;
+  playBtn.classList.remove('hidden');
+  liveBtn.classList.remove('hidden');
+}
+
+/** Back to the landing screen once the last track has played */
+function finishPlaylist() {
+  playBtn.classList.remove('hidden');
+  liveBtn.classList.remove('hidden');
+  playBtn.textContent = 'Replay';
+  heroCanvas.classList.remove('hidden');
+  initHeroDither(heroCanvas);
+}
+
+/** Fetch and decode a song, and find its beats (from its beat map, if it has one) */
+async function loadSong(audioCtx: AudioContext, track: Track): Promise<{ buffer: AudioBuffer; beats: BeatData }> {
+  // 3. Fetch and decode the song (and its precomputed beat map, if any)
+  loading.textContent = 'Loading song...';
+  const beatMap = loadBeatMap(track.src, track.bpm);
+  const response = await fetch(track.src);
+  const arrayBuffer = await response.arrayBuffer();
+  const buffer = await audioCtx.decodeAudioData(arrayBuffer);
+
+  // 4. Detect beats (in a worker) — only when there's no beat map at the track's BPM
+  loading.textContent = 'Detecting beats...';
+  const beats = (await beatMap) ?? await detectBeatsInWorker(
+    buffer,
+    { bpmOverride: track.bpm },
+    (progress) => {
+      loading.textContent = `Detecting beats... ${Math.round(progress * 100)}%`;
+    },
+  );
+  return { buffer, beats };
+}
+
+/**
+ * Load, analyze and play one track of the playlist. When it ends,
+ * everything is torn down and the next track starts with its own
+ * beat analysis and clip set. With a `replay` take, the recorded cuts,
+ * overlay params and FX toggles drive the edit instead. With `live`
+ * input there's no song: its beats cut the lanes as they're heard, and
+ * it plays until the page closes.
+ */
+async function playTrack(
+  audioCtx: AudioContext,
+  tracks: Track[],
+  index: number,
+  replay?: EditTimelineJSON,
+  live?: LiveInput,
+) {
+  const track = tracks[index];
+  loading.style.display = 'block';
+
+  // 3–4. The song and its beats — live input has neither up front
+  const song = live ? null : await loadSong(audioCtx, track);
+  const detectedBeats = song?.beats ?? liveBeatData();
+
+  // The song's saved tempo correction — not for replays, whose cuts sit
+  // on the grid they were recorded with
+  let correction = (song && !replay && loadCorrection(track.src)) || NO_CORRECTION;
+  let savedCorrection = correction;
+  const songLength = song?.buffer.duration ?? Infinity;
+  let beatData = applyCorrection(detectedBeats, correction, songLength);
+
+  // 5. Fetch this track's clips (a replay needs only the ones it cut to)
+  loading.textContent = 'Loading clips...';
+  const recordedCuts = replay?.events.filter((e): e is CutEvent => e.type === 'cut') ?? [];
+  const clips = replay ? [...new Set(recordedCuts.map((c) => c.clip))] : await loadClips(track);
+
+  if (clips.length === 0) {
+    throw new Error('No clips found. Run: npm run convert');
+  }
+
+  // 6. Initialize video player lanes
+  const videoContainer = document.getElementById('video-container')!;
+  const app = document.getElementById('app')!;
+
+  // Each track (and each consumer within it) draws from its own stream
+  const seed = replay?.seed ?? `${editSeed}/${index}`;
+  const fxRandom = createRandom(`${seed}/fx`);
+
+  // Replay: each lane's recorded cuts in order (players index into these)
+  const recordedLanes = Math.max(1, ...recordedCuts.map((c) => c.lane + 1));
+  const scripts = Array.from({ length: recordedLanes }, (_, lane) =>
+    recordedCuts.filter((c) => c.lane === lane).sort((a, b) => a.time - b.time),
+  );
+
+  // A replay keeps the lanes it was recorded with; otherwise the layout
+  // asked for, or whatever fits the pane
+  let layoutName: LayoutName = replay ? layoutForLanes(recordedLanes) : preferredLayout();
+  let layout = replay ? LAYOUTS[layoutName] : fitLayout(layoutName, videoContainer.clientWidth);
+  /** Lane the overlays sample from and reshuffle with */
+  let fxLane = 0;
+  let lanes: HTMLDivElement[] = [];
+
+  const buildLanes = () => {
+    players.forEach(p => p.destroy());
     videoContainer.innerHTML = '';
-    const laneCount = getLaneCount();
-    const poolPerLane = laneCount === 1 ? 6 : 4;
+    videoContainer.dataset.layout = layout.name;
+    const poolPerLane = layout.lanes === 1 ? 6 : 4;
+    lanes = [];
     players = [];
-
-    const lanes: HTMLDivElement[] = [];
-    for (let i = 0; i < laneCount; i++) {
+    for (let i = 0; i < layout.lanes; i++) {
       const lane = document.createElement('div');
       lane.className = 'video-lane';
       videoContainer.appendChild(lane);
       lanes.push(lane);
-      const p = new VideoPlayer(lane, poolPerLane);
-      p.init(clips, beats, audioCtx);
+      const p = new VideoPlayer(lane, poolPerLane, createRandom(`${seed}/lane-${i}`));
+      p.init(clips, beatData, audioCtx, replay ? scripts[i] : undefined, !!live);
       players.push(p);
     }
+    fxLane = Math.min(fxLane, players.length - 1);
+  };
+  buildLanes();
+
+  // Lane visibility & saturation: randomly hide lanes and add color
+  const shuffleLaneVisibility = () => {
+    const laneCount = lanes.length;
+    if (laneCount <= 1) return;
+    const roll = fxRandom();
+    if (roll < 0.08) {
+      // Rare: only 1 lane visible
+      const keep = Math.floor(fxRandom() * laneCount);
+      lanes.forEach((l, i) => { l.style.opacity = i === keep ? '1' : '0'; });
+    } else if (roll < 0.35) {
+      // Sometimes: hide 1 lane
+      const hide = Math.floor(fxRandom() * laneCount);
+      lanes.forEach((l, i) => { l.style.opacity = i === hide ? '0' : '1'; });
+    } else {
+      // Default: all visible
+      lanes.forEach(l => { l.style.opacity = '1'; });
+    }
+  };
+
+  // Section energy drives how hard the overlays work: every cut in a
+  // drop, only some cuts in an intro or breakdown
+  let fxIntensity = 1;
+  const maybeShuffle = (fx: Overlay) => {
+    if (fx.shuffle && fxRandom() < fxIntensity) fx.shuffle();
+  };
+
+  // Shuffles are recorded and replayed for every effect that can snapshot them
+  const snapshotOverlays = (): OverlayStates => {
+    const states: OverlayStates = {};
+    for (const [name, fx] of effects) {
+      if (fx.snapshot) states[name] = fx.snapshot();
+    }
+    return states;
+  };
+  const restoreOverlay = (name: string, state: unknown) => {
+    effects.get(name)?.restore?.(state);
+  };
+
+  // The scene on screen (if any) pins its params over every shuffle
+  let scene: Scene | null = null;
+  let sceneIndex = -1;
+  let fxCuts = 0;
+  const pinScene = () => {
+    if (!scene) return;
+    for (const [name, params] of Object.entries(scene.fx)) {
+      const fx = effects.get(name);
+      if (!fx?.snapshot || !fx.restore || Object.keys(params).length === 0) continue;
+      fx.restore({ ...(fx.snapshot() as object), ...params });
+    }
+  };
 
+  // Every clip that goes on screen is logged to the edit timeline
+  timeline = new EditTimeline(trackLabel(track), track.src, seed);
 
-    // 5b. Initialize overlays
-    const app = document.getElementById('app')!;
-    overlay = new TrackingOverlay(app, players[0]);
-    threshold = new ThresholdOverlay(app, players[0]);
-    dither = new DitherOverlay(app, players[0]);
-
-    // Lane visibility & saturation: randomly hide lanes and add color
-    const shuffleLaneVisibility = () => {
-      if (laneCount <= 1) return;
-      const roll = Math.random();
-      if (roll < 0.08) {
-        // Rare: only 1 lane visible
-        const keep = Math.floor(Math.random() * laneCount);
-        lanes.forEach((l, i) => { l.style.opacity = i === keep ? '1' : '0'; });
-      } else if (roll < 0.35) {
-        // Sometimes: hide 1 lane
-        const hide = Math.floor(Math.random() * laneCount);
-        lanes.forEach((l, i) => { l.style.opacity = i === hide ? '0' : '1'; });
-      } else {
-        // Default: all visible
-        lanes.forEach(l => { l.style.opacity = '1'; });
-      }
-    };
-
-    // When any lane swaps, it becomes the active (saturated) one
+  // When any lane swaps, it becomes the active (saturated) one; swaps on
+  // the FX lane also reshuffle the overlays and fire the strobe
+  const wireLanes = () => {
     players.forEach((p, i) => {
-      p.onSwap = () => {
+      p.onSwap = (cut) => {
         shuffleLaneVisibility();
-        if (i === 0) {
-          overlay?.shuffle();
-          threshold?.shuffle();
-          dither?.shuffle();
+        const recorded = cut.index !== undefined ? scripts[i]?.[cut.index]?.overlays : undefined;
+        if (recorded) {
+          for (const [name, state] of Object.entries(recorded)) restoreOverlay(name, state);
+        } else if (i === fxLane) {
+          if (typeof config.sceneCycle === 'number' && ++fxCuts % config.sceneCycle === 0) nextScene();
+          effects.forEach(maybeShuffle);
+          pinScene();
         }
+        if (i === fxLane) effects.forEach(fx => fx.flash?.());
+        timeline?.cut(i, cut, i === fxLane ? snapshotOverlays() : undefined);
       };
+      p.onSection = i === fxLane
+        ? (section) => {
+          fxIntensity = config.sectionProfiles[section.label]?.fx ?? 1;
+          if (config.sceneCycle === 'section' && !replay) nextScene();
+        }
+        : null;
+    });
+  };
+  wireLanes();
+
+  // 7. Start audio playback (capped at the track's max duration) — or
+  // start the clock on the live input
+  if (audioCtx.state !== 'running') await audioCtx.resume();
+  const audio: SongClock = song
+    ? new AudioTransport(audioCtx, song.buffer, track.maxDuration ?? song.buffer.duration)
+    : live!;
+  audio.play(0);
+  const startTime = audio.startTime;
+  const duration = audio.duration;
+  timelineEnd = () => audio.elapsed;
+  transportDuration.textContent = live ? 'LIVE' : formatTime(duration);
+  transportTitle.textContent = trackLabel(track);
+  // Live input can't seek: no scrub bar
+  transport.classList.toggle('live', !!live);
+  transport.classList.add('visible');
+  paused = false;
+  transportPlaypause.innerHTML = '&#9616;&#9616;';
+
+  // 7b. Build every registered effect against the FX lane
+  for (const def of EFFECTS) {
+    const fx = def.create({
+      app,
+      videoContainer,
+      player: players[fxLane],
+      audioCtx,
+      startTime,
+      random: createRandom(`${seed}/${def.stream ?? def.name}`),
     });
+    effects.set(def.name, fx);
+    if (fx.element && def.layer !== false) layers.attach(def.name, fx.element);
+    if (def.params) params.attach(def.name, fx);
+  }
 
-    // 6. Start audio playback (cap at 2:03)
-    if (audioCtx.state !== 'running') await audioCtx.resume();
-    const maxDuration = 123; // 2:03
-    const source = audioCtx.createBufferSource();
-    source.buffer = audioBuffer;
-    source.connect(audioCtx.destination);
-    const startTime = audioCtx.currentTime;
-    source.start(startTime, 0, maxDuration);
-    const duration = Math.min(audioBuffer.duration, maxDuration);
-    transportDuration.textContent = formatTime(duration);
-    transport.classList.add('visible');
-    paused = false;
-    transportPlaypause.innerHTML = '&#9616;&#9616;';
-
-    // Transport progress loop
-    let transportRaf = 0;
-    const updateTransport = () => {
-      if (!paused) {
-        const elapsed = Math.min(audioCtx.currentTime - startTime, duration);
-        transportTime.textContent = formatTime(elapsed);
-        transportProgress.style.width = `${(elapsed / duration) * 100}%`;
-      }
-      transportRaf = requestAnimationFrame(updateTransport);
-    };
+  // Transport progress loop
+  let transportRaf = 0;
+  let scrubbing = false;
+  const updateTransport = () => {
+    replayFx(audio.elapsed);
+    if (!paused && !scrubbing) {
+      const elapsed = audio.elapsed;
+      transportTime.textContent = formatTime(elapsed);
+      transportProgress.style.width = `${(elapsed / duration) * 100}%`;
+    }
     transportRaf = requestAnimationFrame(updateTransport);
+  };
+  transportRaf = requestAnimationFrame(updateTransport);
+
+  // Play/pause toggle
+  const handlePlaypause = () => {
+    if (paused) {
+      audioCtx.resume();
+      players.forEach(p => p.resume());
+      transportPlaypause.innerHTML = '&#9616;&#9616;';
+      paused = false;
+    } else {
+      audioCtx.suspend();
+      players.forEach(p => p.pause());
+      transportPlaypause.innerHTML = '&#9654;';
+      paused = true;
+    }
+  };
+  transportPlaypause.onclick = handlePlaypause;
+
+  // Live input doesn't pause or end — the button stops it instead, tearing
+  // down like the end of a song (which closes the input)
+  if (live) {
+    transportPlaypause.innerHTML = '&#9632;';
+    transportPlaypause.title = 'Stop live input';
+    transportPlaypause.onclick = () => audio.onEnded?.();
+  }
 
-    // Play/pause toggle
-    const handlePlaypause = () => {
-      if (paused) {
-        audioCtx.resume();
-        players.forEach(p => p.resume());
-        transportPlaypause.innerHTML = '&#9616;&#9616;';
-        paused = false;
-      } else {
-        audioCtx.suspend();
-        players.forEach(p => p.pause());
-        transportPlaypause.innerHTML = '&#9654;';
-        paused = true;
-      }
-    };
-    transportPlaypause.onclick = handlePlaypause;
-
-    // Click on track to seek (visual only — Web Audio can't seek mid-stream)
-    transportTrack.onclick = () => {};
-
-    // 1-0,Q toggle effects
-    const handleKey = (e: KeyboardEvent) => {
-      if (e.key === '1') toggleTrack();
-      if (e.key === '2') toggleThresh();
-      if (e.key === '3') toggleInvert();
-      if (e.key === '4') toggleDither();
-    };
-    window.addEventListener('keydown', handleKey);
-
-    // FX pad (mobile) + FX dialog (desktop)
-    const fxPad = document.getElementById('fx-pad')!;
-    const padBtns = fxPad.querySelectorAll<HTMLButtonElement>('.pad-btn');
-
-    // FX button: keyboard dialog on desktop only
-    transportFx.onclick = () => {
-      fxDialog.classList.toggle('visible');
-      transportFx.classList.toggle('active');
-    };
-
-    const toggleTrack = () => {
-      overlay?.toggle();
-      padBtns[0].classList.toggle('active');
+  // Render: restart the song and record the composited output until it
+  // ends (or REC is pressed again), then download it. Live input records
+  // from now until it's stopped.
+  let render: RenderRecorder | null = null;
+  const stopRender = async () => {
+    if (!render) return;
+    const recorder = render;
+    render = null;
+    renderBtn.classList.remove('active');
+    renderBtn.textContent = 'REC';
+    const blob = await recorder.stop();
+    downloadRender(blob, `${trackLabel(track)}-${seed}.${recorder.extension}`);
+  };
+  renderBtn.onclick = () => {
+    if (render) {
+      stopRender().catch(showError);
+      return;
+    }
+    try {
+      render = new RenderRecorder(app, audio, audioCtx);
+    } catch (err) {
+      console.error('Render export unavailable:', err);
+      return;
+    }
+    if (!live) audio.seek(0);
+    if (paused) handlePlaypause();
+    render.start();
+    renderBtn.classList.add('active');
+    renderBtn.textContent = 'STOP';
+  };
+
+  // Click or drag on the track to seek — the bar follows the pointer and
+  // the song jumps on release (not live: there's nowhere to jump to)
+  if (!live) {
+    const scrubPosition = (e: PointerEvent) => {
+      const rect = transportTrack.getBoundingClientRect();
+      const fraction = Math.max(0, Math.min((e.clientX - rect.left) / rect.width, 1));
+      transportTime.textContent = formatTime(fraction * duration);
+      transportProgress.style.width = `${fraction * 100}%`;
+      return fraction * duration;
     };
-    const toggleThresh = () => {
-      threshold?.toggle();
-      padBtns[1].classList.toggle('active');
+    transportTrack.onpointerdown = (e) => {
+      scrubbing = true;
+      transportTrack.classList.add('scrubbing');
+      transportTrack.setPointerCapture(e.pointerId);
+      scrubPosition(e);
     };
-    const toggleInvert = () => {
-      videoContainer.classList.toggle('invert');
-      padBtns[2].classList.toggle('active');
+    transportTrack.onpointermove = (e) => {
+      if (scrubbing) scrubPosition(e);
     };
-    const toggleDither = () => {
-      dither?.toggle();
-      padBtns[3].classList.toggle('active');
+    transportTrack.onpointerup = (e) => {
+      if (!scrubbing) return;
+      scrubbing = false;
+      transportTrack.classList.remove('scrubbing');
+      audio.seek(scrubPosition(e));
     };
-    padBtns[0].onclick = toggleTrack;
-    padBtns[1].onclick = toggleThresh;
-    padBtns[2].onclick = toggleInvert;
-    padBtns[3].onclick = toggleDither;
-
-    // Default on: tracking (1), threshold (2), dither (4)
-    toggleTrack();
-    toggleThresh();
-    toggleDither();
-
-    // Stop everything when song ends
-    source.onended = () => {
-      cancelAnimationFrame(transportRaf);
-      players.forEach(p => p.stop());
-      overlay?.destroy();
-      threshold?.destroy();
-      dither?.destroy();
-      overlay = null;
-      threshold = null;
-      dither = null;
-      videoContainer.classList.remove('invert');
-      window.removeEventListener('keydown', handleKey);
-      padBtns.forEach(b => { b.classList.remove('active'); b.onclick = null; });
-      transportFx.classList.remove('active');
-      transportFx.onclick = null;
-      fxDialog.classList.remove('visible');
-      transport.classList.remove('visible');
-      transportPlaypause.onclick = null;
-      playBtn.classList.remove('hidden');
-      playBtn.textContent = 'Replay';
-      heroCanvas.classList.remove('hidden');
-      initHeroDither(heroCanvas);
+    transportTrack.onpointercancel = () => {
+      scrubbing = false;
+      transportTrack.classList.remove('scrubbing');
     };
+  }
 
-    // 7. Start beat-synced video loop
-    loading.style.display = 'none';
-    players.forEach(p => p.start(startTime));
+  // Everything synced to the song re-measures from the new start time
+  // (the timeline re-records from there, starting with the FX already on)
+  audio.onSeek = (start) => {
+    timeline?.rewind(audio.elapsed);
+    tapTempo.reset();
+    if (replay) resyncFx(audio.elapsed);
+    padBtns.forEach(b => { if (b.classList.contains('active')) recordFx(b); });
+    players.forEach(p => p.seek(start));
+    effects.forEach(fx => fx.seek?.(start));
+    events?.seek(start);
+  };
+
+  // Overlays follow the FX lane, and take their intensity from its section
+  const retargetOverlays = () => {
+    const player = players[fxLane];
+    effects.forEach(fx => fx.setPlayer?.(player));
+    const section = player.section;
+    fxIntensity = section ? config.sectionProfiles[section.label]?.fx ?? 1 : 1;
+  };
+  const cycleFxLane = () => {
+    fxLane = (fxLane + 1) % players.length;
+    retargetOverlays();
+    wireLanes();
+  };
+
+  // Layouts: rebuilt lanes join at the current song position. Resizing
+  // falls back to (or back up to) the layout that fits the pane.
+  const applyLayout = () => {
+    const next = replay ? layout : fitLayout(layoutName, videoContainer.clientWidth);
+    transportLayout.textContent = next.name.toUpperCase();
+    if (next.name === layout.name) return;
+    layout = next;
+    buildLanes();
+    retargetOverlays();
+    wireLanes();
+    players.forEach(p => {
+      p.join(audio.startTime);
+      if (paused) p.pause();
+    });
+  };
+  const cycleLayout = () => {
+    // A replay keeps the lanes it was recorded with
+    if (replay) return;
+    layoutName = nextLayout(layoutName);
+    applyLayout();
+  };
+  transportLayout.textContent = layout.name.toUpperCase();
+  transportLayout.onclick = cycleLayout;
+  window.addEventListener('resize', applyLayout);
+
+  // Number keys toggle effects, in registry order; Shift+number recalls a scene
+  const handleKey = (e: KeyboardEvent) => {
+    // Keys typed into the panel's and dialog's controls stay there
+    if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return;
+    const fx = effectForKey(e.key);
+    // Shift+number recalls a scene instead (some layouts shift to the digits)
+    if (fx !== -1 && !e.shiftKey) toggleFx(EFFECTS[fx].name);
+    const slot = sceneForKey(e);
+    if (slot !== -1) recallScene(slot);
+    if (e.key === 'l' || e.key === 'L') cycleLayout();
+    if (e.key === 't' || e.key === 'T') cycleFxLane();
+    if (e.key === 'p' || e.key === 'P') paramPanel.classList.toggle('visible');
+    const tempo = tempoForKey(e.key);
+    if (tempo) tempoActions?.(tempo);
+    if (!live && (e.key === 'ArrowLeft' || e.key === 'ArrowRight')) {
+      e.preventDefault();
+      audio.seek(audio.elapsed + (e.key === 'ArrowLeft' ? -SEEK_STEP : SEEK_STEP));
+    }
+  };
+  window.addEventListener('keydown', handleKey);
+
+  // FX button: keyboard dialog on desktop only
+  transportFx.onclick = () => {
+    fxDialog.classList.toggle('visible');
+    transportFx.classList.toggle('active');
+  };
+
+  // Toggles are logged to the edit timeline under their pad's action name
+  const recordFx = (btn: HTMLButtonElement) => {
+    const name = btn.dataset.action!;
+    const on = btn.classList.contains('active');
+    timeline?.fx(name, on, audio.elapsed, on ? effects.get(name)?.snapshot?.() : undefined);
+  };
+
+  const toggleFx = (name: string) => {
+    const fx = effects.get(name);
+    const btn = [...padBtns].find(b => b.dataset.action === name);
+    if (!fx || !btn) return;
+    btn.classList.toggle('active', fx.toggle());
+    recordFx(btn);
+  };
+  padBtns.forEach(b => { b.onclick = () => toggleFx(b.dataset.action!); });
+
+  // Recalling a scene switches every effect at once — each change is
+  // logged like a toggle, with the pinned params in its state
+  const recallScene = (index: number) => {
+    const next = scenes.list[index];
+    if (!next) return;
+    scene = next;
+    sceneIndex = index;
+    pinScene();
+    for (const btn of padBtns) {
+      const name = btn.dataset.action!;
+      const on = name in next.fx;
+      if (btn.classList.contains('active') !== on) toggleFx(name);
+      else if (on && Object.keys(next.fx[name]).length > 0) recordFx(btn);
+    }
+    if (next.layers) layers.load(next.layers);
+    if (next.params) params.load(next.params);
+    sceneLabel.textContent = next.name;
+    markScene(index);
+  };
+  const nextScene = () => {
+    if (scenes.list.length > 0) recallScene((sceneIndex + 1) % scenes.list.length);
+  };
+  // Saving keeps what's on, the modes each effect is in, the layer stack and the params
+  const saveScene = (name: string) => {
+    const fx: Scene['fx'] = {};
+    for (const btn of padBtns) {
+      if (!btn.classList.contains('active')) continue;
+      const action = btn.dataset.action!;
+      fx[action] = pinnedParams(effects.get(action)?.snapshot?.());
+    }
+    scenes.save({ name, fx, layers: layers.toJSON(), params: params.toJSON() });
+    recallScene(scenes.list.length - 1);
+  };
+  sceneControls = { recall: recallScene, save: saveScene };
+  sceneBtn.onclick = nextScene;
+
+  // Tempo correction: taps, half/double time and nudges rebuild the grid
+  // under the running lanes; SAVE keeps it for the song
+  const tapTempo = new TapTempo();
+  const showTempo = () => markTempo(beatData.bpm, correction, correction === savedCorrection);
+  const retime = (next: TempoCorrection) => {
+    correction = next;
+    beatData = applyCorrection(detectedBeats, correction, songLength);
+    players.forEach(p => p.setBeats(beatData));
+    showTempo();
+  };
+  tempoActions = replay || live ? null : (action) => {
+    switch (action) {
+      case 'tap': {
+        // A new tapped grid starts over from its own phase
+        const tapped = tapTempo.tap(audio.elapsed);
+        if (tapped) retime({ tapped, octave: 0, offset: 0 });
+        break;
+      }
+      case 'half':
+        retime(stepOctave(correction, -1));
+        break;
+      case 'double':
+        retime(stepOctave(correction, 1));
+        break;
+      case 'earlier':
+        retime(nudge(correction, -1));
+        break;
+      case 'later':
+        retime(nudge(correction, 1));
+        break;
+      case 'save':
+        saveCorrection(track.src, correction);
+        savedCorrection = correction;
+        showTempo();
+        break;
+      case 'reset':
+        tapTempo.reset();
+        retime(NO_CORRECTION);
+        break;
+    }
+  };
+  showTempo();
+
+  // MIDI notes hit the same actions as the pad, plus a forced cut on the FX lane
+  midiActions = (target) => {
+    if (target === 'swap') players[fxLane].forceSwap();
+    else if (target === 'scene:next') nextScene();
+    else if (target.startsWith('scene:')) recallScene(Number(target.slice('scene:'.length)));
+    else if (target.startsWith('fx:')) toggleFx(target.slice('fx:'.length));
+    else if (target.startsWith('tempo:')) tempoActions?.(target.slice('tempo:'.length) as TempoAction);
+  };
+
+  // Replay: recorded toggles fire as the song passes them
+  const fxScript = replay?.events.filter((e): e is FxEvent => e.type === 'fx').sort((a, b) => a.time - b.time) ?? [];
+  let fxCursor = 0;
+  const setFx = (name: string, on: boolean, state?: unknown) => {
+    const btn = [...padBtns].find(b => b.dataset.action === name);
+    if (!btn) return;
+    if (btn.classList.contains('active') !== on) toggleFx(name);
+    if (on && state) restoreOverlay(name, state);
+  };
+  const replayFx = (elapsed: number) => {
+    while (fxCursor < fxScript.length && fxScript[fxCursor].time <= elapsed) {
+      const e = fxScript[fxCursor++];
+      setFx(e.fx, e.on, e.state);
+    }
+  };
+  // After a seek: every effect as the take had it at the new position
+  const resyncFx = (elapsed: number) => {
+    const states = new Map<string, FxEvent | null>();
+    padBtns.forEach(b => states.set(b.dataset.action!, null));
+    fxCursor = 0;
+    while (fxCursor < fxScript.length && fxScript[fxCursor].time <= elapsed) {
+      const e = fxScript[fxCursor++];
+      states.set(e.fx, e);
+    }
+    for (const [name, e] of states) setFx(name, e?.on ?? false, e?.state);
+  };
+
+  // Default-on effects start on — a replay starts from its own recorded toggles
+  if (replay) {
+    replayFx(0);
+  } else {
+    EFFECTS.filter(def => def.defaultOn).forEach(def => toggleFx(def.name));
+  }
 
-  } catch (err) {
-    console.error('Startup error:', err);
-    loading.textContent = `Error: ${err instanceof Error ? err.message : 'Unknown error'}`;
-    playBtn.classList.remove('hidden');
+  // Drum hits drive the effects between cuts: kicks flare the threshold
+  // and the strobe, snares jolt the tracking boxes, hats roll the scan lines
+  events = new EventClock(audioCtx, startTime);
+  events.on(beatData.events.kick, () => {
+    effects.get('threshold')?.pulse?.();
+    effects.get('strobe')?.pulse?.();
+  });
+  events.on(beatData.events.snare, () => effects.get('track')?.pulse?.());
+  events.on(beatData.events.hat, () => effects.get('scanlines')?.pulse?.());
+
+  // Live input: beats cut the lanes as the tracker finds them (new lanes
+  // from a layout change pick up the ones so far), and every hit flares
+  // the threshold
+  if (live) {
+    live.onBeat = (time, confidence, bpm) => {
+      beatData.beats.push(time);
+      beatData.confidence.push(confidence);
+      beatData.tempo.push(bpm);
+      beatData.bpm = Math.round(bpm * 10) / 10;
+      players.forEach(p => p.addBeat(time, confidence));
+      showTempo();
+    };
+    live.onOnset = () => effects.get('threshold')?.pulse?.();
   }
-});
+
+  // Stop everything when the song ends, then move on to the next one
+  audio.onEnded = () => {
+    cancelAnimationFrame(transportRaf);
+    timelineEnd = () => duration;
+    stopRender().catch(showError);
+    renderBtn.onclick = null;
+    audio.stop();
+    audio.onSeek = null;
+    players.forEach(p => p.stop());
+    events?.stop();
+    events = null;
+    effects.forEach(fx => fx.destroy());
+    effects.clear();
+    layers.detachAll();
+    params.detachAll();
+    window.removeEventListener('keydown', handleKey);
+    window.removeEventListener('resize', applyLayout);
+    transportLayout.onclick = null;
+    padBtns.forEach(b => { b.classList.remove('active'); b.onclick = null; });
+    sceneControls = null;
+    midiActions = null;
+    tempoActions = null;
+    sceneBtn.onclick = null;
+    sceneLabel.textContent = 'SCENE';
+    markScene(-1);
+    transportFx.classList.remove('active');
+    transportFx.onclick = null;
+    fxDialog.classList.remove('visible');
+    paramPanel.classList.remove('visible');
+    transport.classList.remove('visible');
+    transportPlaypause.onclick = null;
+    transportPlaypause.title = '';
+    transportTrack.onpointerdown = null;
+    transportTrack.onpointermove = null;
+    transportTrack.onpointerup = null;
+    transportTrack.onpointercancel = null;
+    transportTitle.textContent = '';
+
+    if (index + 1 < tracks.length) {
+      playTrack(audioCtx, tracks, index + 1).catch(showError);
+    } else {
+      finishPlaylist();
+    }
+  };
+
+  // 8. Start beat-synced video loop
+  loading.style.display = 'none';
+  players.forEach(p => p.start(startTime));
+  events.start();
+}
@@ -0,0 +1,253 @@
+/**
+ * MIDI control.
+ * Notes and CCs from any connected controller drive the show: notes (and
+ * button-style CCs) fire actions — effect toggles, forced cuts, scene
+ * recalls — and CCs turn effect params. Mappings are made with
+ * MIDI-learn (arm a control on screen, then move the hardware one) and
+ * saved per device, by port name, in localStorage.
+ *
+ * Targets are plain strings: 'fx:<effect>', 'swap', 'scene:<index>',
+ * 'scene:next' and 'tempo:<action>' are actions; 'param:<effect>:<key>'
+ * is a param.
+ */
+
+/** What a control is mapped to (see the header for the forms) */
+export type MidiTarget = string;
+
+/** A control on a device: message kind, channel (1–16) and note/CC number */
+type Control = `${'note' | 'cc'}:${number}:${number}`;
+
+const STORAGE_KEY = 'midi-mappings';
+
+/** A button-style CC counts as pressed when it crosses up through this */
+const CC_PRESS = 64;
+
+const NOTE_ON = 0x90;
+const NOTE_OFF = 0x80;
+const CONTROL_CHANGE = 0xb0;
+
+export class MidiController {
+  private access: MIDIAccess;
+  /** Device name → control → target */
+  private mappings: Record<string, Record<string, MidiTarget>>;
+  private armed: MidiTarget | null = null;
+  /** Last value of each CC, by device and control, to spot button presses */
+  private ccValues = new Map<string, number>();
+
+  /** An action target fired */
+  onAction: ((target: MidiTarget) => void) | null = null;
+  /** A param target moved, to `value` 0–1 */
+  onParam: ((target: MidiTarget, value: number) => void) | null = null;
+  /** Learn mode armed or mapped something, or devices came and went */
+  onChange: (() => void) | null = null;
+
+  constructor(access: MIDIAccess) {
+    this.access = access;
+    this.mappings = readSaved();
+    access.inputs.forEach((input) => this.listen(input));
+    access.onstatechange = (e) => {
+      const port = (e as MIDIConnectionEvent).port;
+      if (port instanceof MIDIInput && port.state === 'connected') this.listen(port);
+      this.onChange?.();
+    };
+  }
+
+  /** Names of the connected input devices */
+  get devices(): string[] {
+    const names: string[] = [];
+    this.access.inputs.forEach((input) => {
+      if (input.state === 'connected') names.push(input.name ?? input.id);
+    });
+    return names;
+  }
+
+  /** The target waiting for a control to map, if learn is armed */
+  get armedTarget(): MidiTarget | null {
+    return this.armed;
+  }
+
+  /** Map the next control moved on any device to `target` (null disarms) */
+  learn(target: MidiTarget | null) {
+    this.armed = target;
+    this.onChange?.();
+  }
+
+  /** Drop every mapping to `target`, on every device */
+  forget(target: MidiTarget) {
+    for (const controls of Object.values(this.mappings)) {
+      for (const [control, mapped] of Object.entries(controls)) {
+        if (mapped === target) delete controls[control];
+      }
+    }
+    this.save();
+  }
+
+  /** The controls mapped to `target`, e.g. 'CC 21 · nanoKONTROL2' */
+  describe(target: MidiTarget): string[] {
+    const labels: string[] = [];
+    for (const [device, controls] of Object.entries(this.mappings)) {
+      for (const [control, mapped] of Object.entries(controls)) {
+        if (mapped !== target) continue;
+        const [kind, channel, number] = control.split(':');
+        labels.push(`${kind === 'cc' ? 'CC' : 'Note'} ${number}${channel === '1' ? '' : ` ch${channel}`} · ${device}`);
+      }
+    }
+    return labels;
+  }
+
+  private listen(input: MIDIInput) {
+    const device = input.name ?? input.id;
+    input.onmidimessage = (e) => {
+      if (e.data) this.handle(device, e.data);
+    };
+  }
+
+  private handle(device: string, data: Uint8Array) {
+    const status = data[0] & 0xf0;
+    const channel = (data[0] & 0x0f) + 1;
+    const number = data[1];
+    const value = data[2] ?? 0;
+
+    let control: Control;
+    let pressed = false;
+    if (status === NOTE_ON && value > 0) {
+      control = `note:${channel}:${number}`;
+      pressed = true;
+    } else if (status === NOTE_ON || status === NOTE_OFF) {
+      // Note-offs (or note-ons at velocity 0) don't do anything yet
+      return;
+    } else if (status === CONTROL_CHANGE) {
+      control = `cc:${channel}:${number}`;
+      const key = `${device}/${control}`;
+      const last = this.ccValues.get(key) ?? 0;
+      this.ccValues.set(key, value);
+      pressed = last < CC_PRESS && value >= CC_PRESS;
+    } else {
+      return;
+    }
+
+    if (this.armed) {
+      // Notes can only fire actions; a CC can do either
+      if (control.startsWith('note') && isParam(this.armed)) return;
+      this.map(device, control, this.armed);
+      this.armed = null;
+      this.onChange?.();
+      return;
+    }
+
+    const target = this.mappings[device]?.[control];
+    if (!target) return;
+    if (isParam(target)) {
+      if (control.startsWith('cc')) this.onParam?.(target, value / 127);
+    } else if (pressed) {
+      this.onAction?.(target);
+    }
+  }
+
+  /** One control per target per device: learning again moves the mapping */
+  private map(device: string, control: Control, target: MidiTarget) {
+    const controls = (this.mappings[device] ??= {});
+    for (const [other, mapped] of Object.entries(controls)) {
+      if (mapped === target) delete controls[other];
+    }
+    controls[control] = target;
+    this.save();
+  }
+
+  private save() {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.mappings));
+    } catch {
+      // Private mode / storage full: mappings just won't persist
+    }
+  }
+}
+
+function isParam(target: MidiTarget): boolean {
+  return target.startsWith('param:');
+}
+
+/** Web MIDI, if the browser has it and the user allows it */
+export async function openMidi(): Promise<MidiController | null> {
+  if (!('requestMIDIAccess' in navigator)) return null;
+  try {
+    return new MidiController(await navigator.requestMIDIAccess());
+  } catch (err) {
+    console.warn('MIDI unavailable:', err);
+    return null;
+  }
+}
+
+/**
+ * The fx-dialog's MIDI row — connected devices, LEARN and CUT (a forced
+ * cut, mappable like everything else) — and MIDI learn across the page.
+ * While learning, clicking any control tagged with `data-midi` (its
+ * target) arms it instead of using it, and the next control moved on a
+ * device is mapped to it; Alt-click forgets a control's mappings.
+ */
+export function renderMidiRow(dialog: HTMLElement, midi: MidiController) {
+  const row = document.createElement('div');
+  row.className = 'fx-row fx-midi';
+  const label = document.createElement('span');
+  const learnBtn = document.createElement('button');
+  learnBtn.className = 'midi-btn';
+  learnBtn.textContent = 'LEARN';
+  learnBtn.title = 'Click a control, then move a knob or hit a pad';
+  const cutBtn = document.createElement('button');
+  cutBtn.className = 'midi-btn';
+  cutBtn.textContent = 'CUT';
+  cutBtn.title = 'Cut the FX lane now';
+  cutBtn.dataset.midi = 'swap';
+  cutBtn.onclick = () => midi.onAction?.('swap');
+  row.append(label, learnBtn, cutBtn);
+  dialog.insertBefore(row, dialog.querySelector('.fx-export'));
+
+  let learning = false;
+  const root = document.body;
+
+  const mark = () => {
+    const devices = midi.devices;
+    label.textContent = devices.length > 0 ? `MIDI: ${devices.join(', ')}` : 'MIDI: no devices';
+    learnBtn.classList.toggle('active', learning);
+    for (const el of root.querySelectorAll<HTMLElement>('[data-midi]')) {
+      const target = el.dataset.midi!;
+      el.classList.toggle('midi-armed', learning && midi.armedTarget === target);
+      el.classList.toggle('midi-mapped', learning && midi.describe(target).length > 0);
+    }
+  };
+
+  learnBtn.onclick = () => {
+    learning = !learning;
+    root.classList.toggle('midi-learn', learning);
+    if (!learning) midi.learn(null);
+    mark();
+  };
+
+  // Capture phase, so the control's own click never runs while learning
+  root.addEventListener('click', (e) => {
+    if (!learning) return;
+    const el = (e.target as HTMLElement).closest<HTMLElement>('[data-midi]');
+    if (!el) return;
+    e.preventDefault();
+    e.stopPropagation();
+    const target = el.dataset.midi!;
+    if (e.altKey) {
+      midi.forget(target);
+      mark();
+    } else {
+      midi.learn(midi.armedTarget === target ? null : target);
+    }
+  }, true);
+
+  midi.onChange = mark;
+  mark();
+}
+
+function readSaved(): Record<string, Record<string, MidiTarget>> {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    return saved && typeof saved === 'object' && !Array.isArray(saved) ? saved : {};
+  } catch {
+    return {};
+  }
+}
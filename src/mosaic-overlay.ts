@@ -5,32 +5,51 @@
  * Quarter viewport size at a random position.
  */
 
+import { getSampler, type FrameSampler } from './frame-sampler';
+import { defaults, type ParamSchema, type ParamValues } from './params';
 import type { VideoPlayer } from './player';
+import type { Random } from './random';
+
+/** Where the last shuffle put the overlay — recorded per cut for replay */
+export interface MosaicState {
+  left: number;
+  top: number;
+}
+
+/** Whether a recorded state (from a take file) can be restored */
+export function isMosaicState(state: unknown): state is MosaicState {
+  const s = state as Partial<MosaicState> | null;
+  return !!s && typeof s === 'object' && Number.isFinite(s.left) && Number.isFinite(s.top);
+}
+
+export const MOSAIC_PARAMS = {
+  /** Cells across; rows follow the aspect ratio */
+  columns: { type: 'number', label: 'Columns', min: 4, max: 128, step: 1, default: 32 },
+} satisfies ParamSchema;
 
-const GRID_COLS = 32;
 const SAMPLE_SCALE = 0.5;
 
 export class MosaicOverlay {
   private canvas: HTMLCanvasElement;
-  private ctx: CanvasRenderingContext2D;
-  private tiny: HTMLCanvasElement;
-  private tinyCtx: CanvasRenderingContext2D;
+  private sampler: FrameSampler;
+  private gridRows = 1;
   private player: VideoPlayer;
   private visible = false;
   private rafId = 0;
   private running = false;
+  private random: Random;
+  private params = defaults(MOSAIC_PARAMS);
 
-  constructor(container: HTMLElement, player: VideoPlayer) {
+  constructor(container: HTMLElement, player: VideoPlayer, random: Random = Math.random) {
     this.player = player;
+    this.random = random;
 
     this.canvas = document.createElement('canvas');
     this.canvas.className = 'mosaic-overlay';
     this.canvas.style.display = 'none';
     container.appendChild(this.canvas);
-    this.ctx = this.canvas.getContext('2d')!;
 
-    this.tiny = document.createElement('canvas');
-    this.tinyCtx = this.tiny.getContext('2d')!;
+    this.sampler = getSampler();
 
     this.resize();
     window.addEventListener('resize', this.resize);
@@ -46,16 +65,38 @@ export class MosaicOverlay {
     this.canvas.style.width = qw + 'px';
     this.canvas.style.height = qh + 'px';
 
-    const rows = Math.round(GRID_COLS * (qh / qw));
-    this.tiny.width = GRID_COLS;
-    this.tiny.height = rows;
+    this.gridRows = Math.max(1, Math.round(this.params.columns * (qh / qw)));
   };
 
   shuffle() {
     const qw = Math.floor(window.innerWidth * SAMPLE_SCALE);
     const qh = Math.floor(window.innerHeight * SAMPLE_SCALE);
-    this.canvas.style.left = Math.floor(Math.random() * (window.innerWidth - qw)) + 'px';
-    this.canvas.style.top = Math.floor(Math.random() * (window.innerHeight - qh)) + 'px';
+    this.canvas.style.left = Math.floor(this.random() * (window.innerWidth - qw)) + 'px';
+    this.canvas.style.top = Math.floor(this.random() * (window.innerHeight - qh)) + 'px';
+  }
+
+  snapshot(): MosaicState {
+    return { left: parseFloat(this.canvas.style.left) || 0, top: parseFloat(this.canvas.style.top) || 0 };
+  }
+
+  restore(state: MosaicState) {
+    this.canvas.style.left = state.left + 'px';
+    this.canvas.style.top = state.top + 'px';
+  }
+
+  /** Sample a different lane's video from now on */
+  setPlayer(player: VideoPlayer) {
+    this.player = player;
+  }
+
+  setParams(values: ParamValues<typeof MOSAIC_PARAMS>) {
+    this.params = values;
+    this.resize();
+  }
+
+  /** The element it draws into, for the layer stack */
+  get element(): HTMLElement {
+    return this.canvas;
   }
 
   toggle(): boolean {
@@ -86,30 +127,10 @@ export class MosaicOverlay {
 
     const video = this.player.activeVideo;
     if (video && video.readyState >= 2) {
-      const tw = this.tiny.width;
-      const th = this.tiny.height;
-
-      // Cover-fit: crop video to match canvas aspect ratio
-      const vw = video.videoWidth || tw;
-      const vh = video.videoHeight || th;
-      const canvasRatio = this.canvas.width / this.canvas.height;
-      const videoRatio = vw / vh;
-      let sx = 0, sy = 0, sw = vw, sh = vh;
-      if (videoRatio > canvasRatio) {
-        sw = vh * canvasRatio;
-        sx = (vw - sw) / 2;
-      } else {
-        sh = vw / canvasRatio;
-        sy = (vh - sh) / 2;
-      }
-
-      this.tinyCtx.drawImage(video, sx, sy, sw, sh, 0, 0, tw, th);
-
-      // Upscale with nearest-neighbor
-      const ctx = this.ctx;
-      ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
-      ctx.imageSmoothingEnabled = false;
-      ctx.drawImage(this.tiny, 0, 0, this.canvas.width, this.canvas.height);
+      // Render a tiny grid, cover-fit to the display canvas, and upscale it unsmoothed
+      this.sampler.blit(this.canvas, video, 'copy', this.params.columns, this.gridRows, {
+        aspect: this.canvas.width / this.canvas.height,
+      });
     }
 
     this.rafId = requestAnimationFrame(this.draw);
@@ -0,0 +1,185 @@
+/**
+ * Effect parameters.
+ * Effects declare their tunables as a typed schema — number ranges,
+ * choices and colors — instead of module constants. The param store
+ * holds every effect's current values: it outlives tracks (each track's
+ * effects attach to it as they're built and get their values pushed),
+ * is edited live from the params panel, is saved with scenes, and
+ * persists in localStorage.
+ */
+
+export interface NumberParam {
+  type: 'number';
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  default: number;
+}
+
+export interface SelectParam<T extends string = string> {
+  type: 'select';
+  label: string;
+  options: readonly T[];
+  default: T;
+}
+
+export interface ColorParam {
+  type: 'color';
+  label: string;
+  /** #rrggbb */
+  default: string;
+}
+
+export type Param = NumberParam | SelectParam | ColorParam;
+
+export type ParamSchema = Record<string, Param>;
+
+export type ParamValue = number | string;
+
+/**
+ * Values for a schema: numbers for number params, the option type for
+ * selects, #rrggbb for colors. Any schema at all gets plain values by key.
+ */
+export type ParamValues<S extends ParamSchema = ParamSchema> = ParamSchema extends S
+  ? Record<string, ParamValue>
+  : { [K in keyof S]: S[K] extends NumberParam ? number : S[K] extends SelectParam<infer T> ? T : string };
+
+/** Anything that takes an effect's values (its overlay) */
+interface ParamTarget {
+  setParams?(values: ParamValues): void;
+}
+
+const STORAGE_KEY = 'fx-params';
+
+export class ParamStore {
+  private schemas: Record<string, ParamSchema>;
+  private values: Record<string, ParamValues> = {};
+  private targets = new Map<string, ParamTarget>();
+
+  /** Fires after any value changes, with the effect it belongs to */
+  onChange: ((effect: string) => void) | null = null;
+
+  /** `schemas` by effect name; values start at their defaults, then any saved ones */
+  constructor(schemas: Record<string, ParamSchema>) {
+    this.schemas = schemas;
+    for (const effect of Object.keys(schemas)) this.values[effect] = defaults(schemas[effect]);
+    this.load(readSaved(), false);
+  }
+
+  /** Effects with params, in registry order */
+  get effects(): string[] {
+    return Object.keys(this.schemas);
+  }
+
+  schema(effect: string): ParamSchema | undefined {
+    return this.schemas[effect];
+  }
+
+  get(effect: string): ParamValues {
+    return { ...this.values[effect] };
+  }
+
+  /** Push `effect`'s values to `target` now and on every change */
+  attach(effect: string, target: ParamTarget) {
+    if (!this.values[effect]) return;
+    this.targets.set(effect, target);
+    target.setParams?.(this.get(effect));
+  }
+
+  /** Forget every target (the track's effects are being destroyed) */
+  detachAll() {
+    this.targets.clear();
+  }
+
+  set(effect: string, key: string, value: ParamValue) {
+    const param = this.schemas[effect]?.[key];
+    if (!param) return;
+    const valid = validate(param, value);
+    if (valid === undefined || valid === this.values[effect][key]) return;
+    this.values[effect][key] = valid;
+    this.changed([effect]);
+  }
+
+  /** Back to the schema defaults */
+  reset(effect: string) {
+    const schema = this.schemas[effect];
+    if (!schema) return;
+    this.values[effect] = defaults(schema);
+    this.changed([effect]);
+  }
+
+  toJSON(): Record<string, ParamValues> {
+    const json: Record<string, ParamValues> = {};
+    for (const effect of this.effects) json[effect] = this.get(effect);
+    return json;
+  }
+
+  /**
+   * Take values from a saved set. Effects and params it doesn't mention
+   * keep their values; ones that no longer exist or are out of range are
+   * dropped.
+   */
+  load(saved: Record<string, Record<string, unknown>>, notify = true) {
+    const touched: string[] = [];
+    for (const [effect, values] of Object.entries(saved)) {
+      const schema = this.schemas[effect];
+      if (!schema || !values || typeof values !== 'object') continue;
+      for (const [key, value] of Object.entries(values)) {
+        const valid = schema[key] && validate(schema[key], value);
+        if (valid !== undefined) this.values[effect][key] = valid;
+      }
+      touched.push(effect);
+    }
+    if (notify) this.changed(touched);
+  }
+
+  private changed(effects: string[]) {
+    for (const effect of effects) this.targets.get(effect)?.setParams?.(this.get(effect));
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.values));
+    } catch {
+      // Private mode / storage full: values just won't persist
+    }
+    for (const effect of effects) this.onChange?.(effect);
+  }
+}
+
+/** A schema's default values */
+export function defaults<S extends ParamSchema>(schema: S): ParamValues<S> {
+  const values: Record<string, ParamValue> = {};
+  for (const [key, param] of Object.entries(schema)) values[key] = param.default;
+  return values as ParamValues<S>;
+}
+
+/** `value` as `param` accepts it (numbers clamped and snapped), or undefined */
+function validate(param: Param, value: unknown): ParamValue | undefined {
+  switch (param.type) {
+    case 'number': {
+      const n = typeof value === 'string' ? parseFloat(value) : value;
+      if (typeof n !== 'number' || !Number.isFinite(n)) return undefined;
+      const snapped = param.min + Math.round((n - param.min) / param.step) * param.step;
+      // Trim float noise from the snap (0.1 + 0.2 …)
+      return Math.max(param.min, Math.min(param.max, parseFloat(snapped.toFixed(6))));
+    }
+    case 'select':
+      return typeof value === 'string' && param.options.includes(value) ? value : undefined;
+    case 'color':
+      return typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value) ? value.toLowerCase() : undefined;
+  }
+}
+
+/** '#rrggbb' at `alpha` as a CSS rgba() */
+export function withAlpha(hex: string, alpha: number): string {
+  const n = parseInt(hex.slice(1), 16);
+  return `rgba(${(n >> 16) & 255}, ${(n >> 8) & 255}, ${n & 255}, ${alpha})`;
+}
+
+function readSaved(): Record<string, Record<string, unknown>> {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    return saved && typeof saved === 'object' && !Array.isArray(saved) ? saved : {};
+  } catch {
+    return {};
+  }
+}
@@ -1,5 +1,9 @@
 import Hls from 'hls.js';
 import { config } from './config';
+import type { BeatData, Section } from './beat-detect';
+import { getSampler } from './frame-sampler';
+import { createRandom, shuffleInPlace, type Random } from './random';
+import { TransitionRenderer, rollTransition, type TransitionName } from './transitions';
 
 const DEFAULT_POOL_SIZE = 6;
 
@@ -7,8 +11,32 @@ interface PoolEntry {
   video: HTMLVideoElement;
   hls: Hls | null;
   ready: boolean;
+  /** Clip loaded into this slot, as listed in the manifest */
+  clip: string;
+  /** Script position loaded into this slot when replaying, else -1 */
+  cut: number;
 }
 
+/** A clip going on screen — what the edit timeline records */
+export interface Cut {
+  clip: string;
+  /** Position within the clip at the moment of the cut (seconds) */
+  inPoint: number;
+  /** Length of the clip (seconds), when known — it loops past its end */
+  clipDuration?: number;
+  /** Beat index the cut landed on */
+  beat: number;
+  /** Song time of the cut (seconds) */
+  time: number;
+  /** Position in the replay script, when replaying */
+  index?: number;
+  /** How the clip came on, when it wasn't a hard cut */
+  transition?: { name: TransitionName; beats: number };
+}
+
+/** Cuts this close to a recorded beat were made on it, not by a seek */
+const ON_BEAT_TOLERANCE = 0.1;
+
 /**
  * Pooled video player that pre-buffers multiple clips ahead of time.
  * On each beat-cut, it promotes the next ready clip and starts
@@ -22,24 +50,56 @@ export class VideoPlayer {
   private clips: string[] = [];
   private clipCursor = 0;
   private beats: number[] = [];
+  private confidence: number[] = [];
+  private meter = 4;
+  private downbeats = new Set<number>();
+  /** Beats arrive one at a time from live input (`addBeat`) — set from the first frame, by `init` */
+  private live = false;
+  private sections: Section[] = [];
+  private sectionIndex = -1;
   private beatIndex = 0;
+  /** Beat index the next cut lands on */
   private nextCutBeat = 0;
+  private cutSlip = 0;
   private audioStartTime = 0;
   private audioCtx: AudioContext | null = null;
   private rafId = 0;
   private running = false;
-
-  onSwap: (() => void) | null = null;
-
-  constructor(container: HTMLElement, poolSize = DEFAULT_POOL_SIZE) {
+  private destroyed = false;
+  private random: Random;
+  /** Draws for cuts off the seeded edit (seeks, forced hits), so they leave `random` where it was */
+  private offGrid: Random;
+  /** Recorded cuts to replay instead of rolling new ones */
+  private script: Cut[] | null = null;
+  /** Next script position to cut to / to preload */
+  private scriptCursor = 0;
+  private scriptLoaded = 0;
+  private transitions: TransitionRenderer;
+  /** Transition the current clip came on with, if any */
+  private lastTransition: Cut['transition'];
+
+  /** Fires whenever a clip goes on screen, including the opening shot */
+  onSwap: ((cut: Cut) => void) | null = null;
+  /** Fires when playback crosses into a new song section */
+  onSection: ((section: Section) => void) | null = null;
+
+  constructor(container: HTMLElement, poolSize = DEFAULT_POOL_SIZE, random: Random = Math.random) {
     this.container = container;
     this.poolSize = poolSize;
+    this.random = random;
+    this.transitions = new TransitionRenderer(container, createRandom(String(random())));
+    this.offGrid = createRandom(String(random()));
   }
 
   get activeVideo(): HTMLVideoElement | null {
     return this.pool[this.activeIndex]?.video ?? null;
   }
 
+  /** Section playback is currently in */
+  get section(): Section | null {
+    return this.sections[this.sectionIndex] ?? null;
+  }
+
   private createEntry(): PoolEntry {
     const v = document.createElement('video');
     v.muted = true;
@@ -49,24 +109,42 @@ export class VideoPlayer {
     v.className = 'clip';
     v.style.visibility = 'hidden';
     this.container.appendChild(v);
-    return { video: v, hls: null, ready: false };
+    return { video: v, hls: null, ready: false, clip: '', cut: -1 };
   }
 
-  init(allClips: string[], beats: number[], audioCtx: AudioContext) {
+  /**
+   * Load the song's beat data and start preloading clips. With a `script`
+   * (cuts recorded by an earlier take) the pool plays those clips at
+   * those in-points on those beats instead of rolling its own edit. A
+   * `live` pool gets its beats from `addBeat` instead.
+   */
+  init(allClips: string[], beatData: BeatData, audioCtx: AudioContext, script?: Cut[], live = false) {
     this.audioCtx = audioCtx;
-    this.beats = beats;
-
-    const shuffled = [...allClips].sort(() => Math.random() - 0.5);
+    this.live = live;
+    // Copies: live input appends to these as beats come in
+    this.beats = [...beatData.beats];
+    this.confidence = [...beatData.confidence];
+    this.meter = beatData.meter;
+    this.downbeats = new Set(beatData.downbeats);
+    this.sections = beatData.sections;
+    this.sectionIndex = -1;
+
+    const shuffled = shuffleInPlace([...allClips], this.random);
     this.clips = shuffled.slice(0, Math.min(config.clipCount, shuffled.length));
     this.clipCursor = 0;
     this.beatIndex = 0;
-    this.nextCutBeat = this.rollCutLength();
+    this.cutSlip = 0;
+    this.nextCutBeat = this.scheduleCut(0);
 
     // Create pool and start preloading all slots
     for (let i = 0; i < this.poolSize; i++) {
-      const entry = this.createEntry();
-      this.pool.push(entry);
-      this.loadEntry(entry, this.advanceClip());
+      this.pool.push(this.createEntry());
+    }
+    if (script && script.length > 0) {
+      this.script = [...script].sort((a, b) => a.time - b.time);
+      this.cueScript(0, 0);
+    } else {
+      for (const entry of this.pool) this.loadEntry(entry, this.advanceClip());
     }
 
     // Show the first one immediately
@@ -74,22 +152,85 @@ export class VideoPlayer {
     this.pool[0].video.style.visibility = 'visible';
   }
 
+  /**
+   * Replay: reload the whole pool from script position `from`. That cut
+   * goes on screen `offset` seconds in; the ones after it queue behind.
+   */
+  private cueScript(from: number, offset: number) {
+    const script = this.script!;
+    // Whatever was transitioning out is about to be reloaded anyway
+    this.transitions.cancel();
+    this.pool.forEach((entry, i) => {
+      const index = from + ((i - this.activeIndex + this.poolSize) % this.poolSize);
+      entry.video.style.visibility = i === this.activeIndex ? 'visible' : 'hidden';
+      if (index < script.length) {
+        const cut = script[index];
+        this.loadEntry(entry, cut.clip, { index, inPoint: cut.inPoint + (index === from ? offset : 0) });
+      } else {
+        entry.cut = -1;
+        entry.video.pause();
+      }
+    });
+    this.scriptCursor = from + 1;
+    this.scriptLoaded = from + this.poolSize;
+  }
+
+  /** When a scripted cut fires: on its recorded beat, unless it was an opening or seek cut */
+  private cutTime(cut: Cut): number {
+    const beat = this.beats[cut.beat];
+    return beat !== undefined && Math.abs(beat - cut.time) < ON_BEAT_TOLERANCE ? beat : cut.time;
+  }
+
   private advanceClip(): string {
     // Reshuffle when we've been through all clips
     if (this.clipCursor >= this.clips.length) {
       this.clipCursor = 0;
-      this.clips.sort(() => Math.random() - 0.5);
+      shuffleInPlace(this.clips, this.random);
     }
     const clip = this.clips[this.clipCursor];
     this.clipCursor++;
     return clip;
   }
 
-  private loadEntry(entry: PoolEntry, clipUrl: string) {
+  /**
+   * Stand-in for a clip that failed to load: the next one in the clip
+   * list. It takes no draws, so failures and timeouts (which depend on the
+   * network) leave the seeded stream where it was.
+   */
+  private substituteClip(failed: string): string {
+    return this.clips[(this.clips.indexOf(failed) + 1) % this.clips.length];
+  }
+
+  /**
+   * Load a clip into a slot — at a random in-point, or at a scripted one
+   * (seconds). `roll` can be drawn early by a caller that loads later.
+   */
+  private loadEntry(
+    entry: PoolEntry,
+    clipUrl: string,
+    scripted?: { index: number; inPoint: number },
+    // Roll the in-point now, not when metadata arrives, so load order
+    // doesn't change which numbers each clip gets
+    roll = scripted ? 0 : this.random(),
+  ) {
+    // A late retry for a lane that's already been torn down
+    if (this.destroyed) return;
     const url = clipUrl.startsWith('http') ? clipUrl : `/clips/${clipUrl}`;
     const video = entry.video;
+    getSampler().forget(video);
     video.crossOrigin = 'anonymous';
     entry.ready = false;
+    entry.clip = clipUrl;
+    entry.cut = scripted ? scripted.index : -1;
+
+    const seekToInPoint = () => {
+      if (scripted) {
+        const last = Number.isFinite(video.duration) ? Math.max(0, video.duration - 0.1) : scripted.inPoint;
+        video.currentTime = Math.min(scripted.inPoint, last);
+      } else if (video.duration > 2) {
+        video.currentTime = roll * (video.duration - 2);
+      }
+    };
 
     // Destroy previous HLS instance
     if (entry.hls) {
@@ -97,22 +238,25 @@ export class VideoPlayer {
       entry.hls = null;
     }
 
+    // Scripted clips wait, parked on their in-point, until their cut
     const onReady = () => {
       entry.ready = true;
-      video.play().catch(() => {});
+      if (!scripted || (this.running && entry === this.pool[this.activeIndex])) {
+        video.play().catch(() => {});
+      }
     };
 
-    // On error, skip this clip and try the next one
+    // On error, skip this clip and try a stand-in (a replay has no substitute)
     const onError = () => {
       console.warn('Clip failed to load, skipping:', url);
-      this.loadEntry(entry, this.advanceClip());
+      if (!scripted) this.loadEntry(entry, this.substituteClip(clipUrl), undefined, roll);
     };
 
     // Timeout: if not ready after 8s, try a different clip
     const timeout = setTimeout(() => {
-      if (!entry.ready) {
+      if (!entry.ready && !scripted) {
         console.warn('Clip timed out, skipping:', url);
-        this.loadEntry(entry, this.advanceClip());
+        this.loadEntry(entry, this.substituteClip(clipUrl), undefined, roll);
       }
     }, 8000);
 
@@ -126,9 +270,7 @@ export class VideoPlayer {
       hls.loadSource(url);
       hls.attachMedia(video);
       hls.on(Hls.Events.MANIFEST_PARSED, () => {
-        if (video.duration > 2) {
-          video.currentTime = Math.random() * (video.duration - 2);
-        }
+        seekToInPoint();
         onReadyWithClear();
       });
       hls.on(Hls.Events.ERROR, (_event, data) => {
@@ -144,9 +286,7 @@ export class VideoPlayer {
       video.src = url;
       video.load();
       video.addEventListener('loadedmetadata', () => {
-        if (video.duration > 2) {
-          video.currentTime = Math.random() * (video.duration - 2);
-        }
+        seekToInPoint();
         onReadyWithClear();
       }, { once: true });
       video.addEventListener('error', () => { clearTimeout(timeout); onError(); }, { once: true });
@@ -154,9 +294,7 @@ export class VideoPlayer {
       video.src = url;
       video.load();
       video.addEventListener('loadedmetadata', () => {
-        if (video.duration > 2) {
-          video.currentTime = Math.random() * (video.duration - 2);
-        }
+        seekToInPoint();
         onReadyWithClear();
       }, { once: true });
       video.addEventListener('error', () => { clearTimeout(timeout); onError(); }, { once: true });
@@ -166,7 +304,9 @@ export class VideoPlayer {
   start(audioStartTime: number) {
     this.audioStartTime = audioStartTime;
     this.running = true;
+    this.lastTransition = undefined;
     this.pool[this.activeIndex].video.play().catch(() => {});
+    this.onSwap?.(this.describeCut());
     this.tick();
   }
 
@@ -178,6 +318,114 @@ export class VideoPlayer {
     }
   }
 
+  /**
+   * Start partway into the song — a lane added by a layout change picks
+   * up the beat grid (or the replay script) where the audio already is.
+   */
+  join(audioStartTime: number) {
+    this.audioStartTime = audioStartTime;
+    this.running = true;
+    this.syncTo(this.audioCtx ? this.audioCtx.currentTime - audioStartTime : 0);
+    this.lastTransition = undefined;
+    this.pool[this.activeIndex].video.play().catch(() => {});
+    this.onSwap?.(this.describeCut());
+    this.tick();
+  }
+
+  /**
+   * Re-sync to a new song position after the audio was seeked.
+   * `audioStartTime` is the audio clock time of the song's 0:00.
+   * Cuts straight away so the jump reads as an edit. Live input can't
+   * be seeked: there's nowhere to jump to.
+   */
+  seek(audioStartTime: number) {
+    if (this.live) return;
+    this.audioStartTime = audioStartTime;
+    this.syncTo(this.audioCtx ? this.audioCtx.currentTime - audioStartTime : 0);
+    if (this.script) {
+      this.lastTransition = undefined;
+      this.onSwap?.(this.describeCut());
+    } else {
+      this.swap(true);
+    }
+  }
+
+  /**
+   * Swap in a corrected beat grid mid-song (tap tempo, half/double time,
+   * nudges). Beat and section bookkeeping pick up where the audio is and
+   * the next cut is re-rolled from there; the clip on screen stays, and a
+   * replay keeps its script.
+   */
+  setBeats(beatData: BeatData) {
+    // Copies: live input appends to these as beats come in
+    this.beats = [...beatData.beats];
+    this.confidence = [...beatData.confidence];
+    this.meter = beatData.meter;
+    this.downbeats = new Set(beatData.downbeats);
+    this.sections = beatData.sections;
+
+    const elapsed = this.audioCtx ? this.audioCtx.currentTime - this.audioStartTime : 0;
+    let index = 0;
+    while (index < this.beats.length && this.beats[index] <= elapsed) index++;
+    this.beatIndex = index;
+    // Sections keep their times, so this is the same section renumbered
+    const section = this.sectionAt(Math.max(0, index - 1));
+    this.sectionIndex = section ? this.sections.indexOf(section) : -1;
+    if (this.script) return;
+    this.cutSlip = 0;
+    this.nextCutBeat = this.scheduleCut(Math.max(0, index - 1));
+  }
+
+  /**
+   * Live input: a beat just landed at song time `time`. Beats come from
+   * the real-time tracker one at a time instead of the analysed array;
+   * bars are counted from the first one, and the beat plays straight away
+   * rather than on the next frame.
+   */
+  addBeat(time: number, confidence: number) {
+    this.beats.push(time);
+    this.confidence.push(confidence);
+    if (this.running && this.audioCtx) this.playBeats(this.audioCtx.currentTime - this.audioStartTime);
+  }
+
+  /**
+   * Cut now, off the grid (a performer's hit), and roll the next cut from
+   * the beat playback is on. Replays keep their script.
+   */
+  forceSwap() {
+    if (this.script || !this.running) return;
+    this.cutSlip = 0;
+    this.nextCutBeat = this.scheduleCut(Math.max(0, this.beatIndex - 1));
+    this.swap(true);
+  }
+
+  /** Point the beat, section and cut bookkeeping at song time `elapsed` */
+  private syncTo(elapsed: number) {
+    // First beat still ahead of the new position
+    let index = 0;
+    while (index < this.beats.length && this.beats[index] <= elapsed) index++;
+    this.beatIndex = index;
+
+    // Section playback landed in
+    const section = this.sectionAt(Math.max(0, index - 1));
+    const sectionIndex = section ? this.sections.indexOf(section) : -1;
+    if (sectionIndex !== this.sectionIndex) {
+      this.sectionIndex = sectionIndex;
+      if (section) this.onSection?.(section);
+    }
+
+    if (this.script) {
+      // Last scripted cut at or before the new position, picked up mid-shot
+      let cut = 0;
+      while (cut + 1 < this.script.length && this.cutTime(this.script[cut + 1]) <= elapsed) cut++;
+      this.cueScript(cut, Math.max(0, elapsed - this.cutTime(this.script[cut])));
+      return;
+    }
+
+    this.cutSlip = 0;
+    this.nextCutBeat = this.scheduleCut(Math.max(0, index - 1));
+  }
+
   resume() {
     this.running = true;
     this.pool[this.activeIndex].video.play().catch(() => {});
@@ -187,16 +435,30 @@ export class VideoPlayer {
   stop() {
     this.running = false;
     cancelAnimationFrame(this.rafId);
+    this.transitions.cancel();
     for (const entry of this.pool) {
       entry.video.pause();
       if (entry.hls) entry.hls.destroy();
     }
   }
 
-  private rollCutLength(): number {
-    const weights = config.cutWeights;
+  /** Stop and remove every video, e.g. when the lane layout changes */
+  destroy() {
+    this.stop();
+    this.destroyed = true;
+    this.transitions.destroy();
+    for (const entry of this.pool) {
+      getSampler().forget(entry.video);
+      entry.video.removeAttribute('src');
+      entry.video.load();
+      entry.video.remove();
+    }
+    this.pool = [];
+  }
+
+  private rollCutLength(weights: [number, number][]): number {
     const totalWeight = weights.reduce((sum, [, w]) => sum + w, 0);
-    let roll = Math.random() * totalWeight;
+    let roll = this.random() * totalWeight;
     for (const [beats, weight] of weights) {
       roll -= weight;
       if (roll <= 0) return beats;
@@ -204,25 +466,105 @@ export class VideoPlayer {
     return weights[0][0];
   }
 
-  private tick = () => {
-    if (!this.running || !this.audioCtx) return;
+  /**
+   * Pick the beat index for the cut after one made on `fromBeat`.
+   * Bar-length holds are snapped so they end on a downbeat — once the
+   * edit is on the one, 4- and 8-beat holds keep starting there.
+   */
+  private scheduleCut(fromBeat: number): number {
+    const section = this.sectionAt(fromBeat);
+    const weights = (section && config.sectionProfiles[section.label]?.cutWeights) || config.cutWeights;
+    const length = this.rollCutLength(weights);
+    const target = fromBeat + length;
+    if (!config.barAlignCuts || (!this.live && this.downbeats.size === 0) || length % this.meter !== 0) {
+      return target;
+    }
 
-    const elapsed = this.audioCtx.currentTime - this.audioStartTime;
+    // Nearest downbeat within half a bar of the target, never at/before the cut
+    const half = Math.floor(this.meter / 2);
+    for (let d = 0; d <= half; d++) {
+      if (this.isDownbeat(target - d) && target - d > fromBeat) return target - d;
+      if (this.isDownbeat(target + d)) return target + d;
+    }
+    return target;
+  }
 
+  /** Seconds per beat around the playhead */
+  private beatPeriod(): number {
+    const i = Math.min(Math.max(1, this.beatIndex), this.beats.length - 1);
+    return i > 0 ? this.beats[i] - this.beats[i - 1] : 0.5;
+  }
+
+  /** Live beats haven't happened yet, so their bars are counted instead */
+  private isDownbeat(beat: number): boolean {
+    return this.live ? beat % this.meter === 0 : this.downbeats.has(beat);
+  }
+
+  private sectionAt(beat: number): Section | null {
+    let found: Section | null = null;
+    for (const section of this.sections) {
+      if (section.startBeat > beat) break;
+      found = section;
+    }
+    return found;
+  }
+
+  /** Play every beat up to song time `elapsed`: section changes and cuts */
+  private playBeats(elapsed: number) {
     while (this.beatIndex < this.beats.length && elapsed >= this.beats[this.beatIndex]) {
+      const beat = this.beatIndex;
       this.beatIndex++;
-      this.nextCutBeat--;
 
-      if (this.nextCutBeat <= 0) {
-        this.nextCutBeat = this.rollCutLength();
-        this.swap();
+      const next = this.sections[this.sectionIndex + 1];
+      if (next && beat >= next.startBeat) {
+        this.sectionIndex++;
+        this.onSection?.(next);
+      }
+
+      if (this.script || beat < this.nextCutBeat) continue;
+
+      // Weak off-bar beat — let the cut slip to the next one rather than miss the hit
+      const confidence = this.confidence[beat] ?? 1;
+      if (
+        confidence < config.minCutConfidence &&
+        this.cutSlip < config.maxCutSlip &&
+        !this.isDownbeat(beat)
+      ) {
+        this.cutSlip++;
+        continue;
+      }
+      this.cutSlip = 0;
+      this.nextCutBeat = this.scheduleCut(beat);
+      this.swap();
+    }
+  }
+
+  private tick = () => {
+    if (!this.running || !this.audioCtx) return;
+
+    const elapsed = this.audioCtx.currentTime - this.audioStartTime;
+    this.playBeats(elapsed);
+
+    if (this.script) {
+      // Several cuts crossed in one frame: only the last one needs showing
+      let cut = -1;
+      while (this.scriptCursor < this.script.length && elapsed >= this.cutTime(this.script[this.scriptCursor])) {
+        cut = this.scriptCursor++;
       }
+      if (cut >= 0) this.swapTo(cut);
     }
 
     this.rafId = requestAnimationFrame(this.tick);
   };
 
-  private swap() {
+  /**
+   * Cut to the next ready clip. An `offGrid` cut (a seek or forced hit,
+   * which a seed can't predict) draws from its own stream and leaves the
+   * clip order alone, so the seeded edit carries on as if it never happened.
+   */
+  private swap(offGrid = false) {
+    // A transition still running lands first, freeing its outgoing slot
+    this.transitions.finish();
     const current = this.pool[this.activeIndex];
 
     // Find the next ready entry (prefer sequential, but search whole pool)
@@ -235,19 +577,94 @@ export class VideoPlayer {
       }
     }
 
+    // Draw the cut's transition, and the recycled slot's clip and in-point,
+    // before anything that depends on loading: a seed makes the same draws
+    // whether or not this cut happens, and however long its transition runs
+    const random = offGrid ? this.offGrid : this.random;
+    const transition = rollTransition(random);
+    const clip = offGrid ? this.clips[Math.floor(random() * this.clips.length)] : this.advanceClip();
+    const roll = random();
+
     // No ready entries — skip this cut
     if (nextIndex === -1) return;
 
     const next = this.pool[nextIndex];
 
+    // The transition canvas covers both clips until it's done
     current.video.style.visibility = 'hidden';
     next.video.style.visibility = 'visible';
-    next.video.play().catch(() => {});
+    // A seek while paused cuts without starting playback; resume() picks it up
+    if (this.running) next.video.play().catch(() => {});
+    this.activeIndex = nextIndex;
 
-    // Recycle the old active: load a new clip into it
-    this.loadEntry(current, this.advanceClip());
+    // Recycle the old active once it's off screen: load a new clip into it
+    const duration = this.running ? transition.beats * this.beatPeriod() : 0;
+    this.lastTransition = duration > 0 ? transition : undefined;
+    this.transitions.play(transition.name, current.video, next.video, duration, () => {
+      this.loadEntry(current, clip, undefined, roll);
+    });
 
+    this.onSwap?.(this.describeCut());
+  }
+
+  /** Replay: show script position `cut`, refilling freed slots with upcoming cuts */
+  private swapTo(cut: number) {
+    this.transitions.finish();
+    const nextIndex = this.pool.findIndex((e) => e.cut === cut);
+    if (nextIndex === -1) {
+      // Not preloaded (a failed clip, or a burst of cuts) — load it in place
+      this.cueScript(cut, 0);
+      this.lastTransition = undefined;
+      this.onSwap?.(this.describeCut());
+      return;
+    }
+
+    const script = this.script!;
+    const current = this.pool[this.activeIndex];
+    const next = this.pool[nextIndex];
+    current.video.style.visibility = 'hidden';
+    next.video.style.visibility = 'visible';
+    if (this.running) next.video.play().catch(() => {});
     this.activeIndex = nextIndex;
-    this.onSwap?.();
+
+    // Recycle the old active (once its transition is over) and anything skipped over
+    let recycleCurrent = () => {};
+    for (const entry of this.pool) {
+      if (entry === next || (entry !== current && entry.cut > cut)) continue;
+      const index = this.scriptLoaded++;
+      const recycle = () => {
+        if (index < script.length) {
+          this.loadEntry(entry, script[index].clip, { index, inPoint: script[index].inPoint });
+        } else {
+          entry.cut = -1;
+          entry.video.pause();
+        }
+      };
+      if (entry === current) recycleCurrent = recycle;
+      else recycle();
+    }
+
+    const transition = script[cut].transition;
+    const duration = transition && this.running ? transition.beats * this.beatPeriod() : 0;
+    this.lastTransition = duration > 0 ? transition : undefined;
+    this.transitions.play(transition?.name ?? 'cut', current.video, next.video, duration, recycleCurrent);
+
+    this.onSwap?.(this.describeCut());
+  }
+
+  private describeCut(): Cut {
+    const entry = this.pool[this.activeIndex];
+    const time = this.audioCtx ? Math.max(0, this.audioCtx.currentTime - this.audioStartTime) : 0;
+    const scripted = entry.cut >= 0 ? this.script![entry.cut] : null;
+    return {
+      clip: entry.clip,
+      // A scripted clip still loading will start from its recorded in-point
+      inPoint: scripted && !entry.ready ? scripted.inPoint : entry.video.currentTime,
+      clipDuration: Number.isFinite(entry.video.duration) ? entry.video.duration : scripted?.clipDuration,
+      beat: Math.max(0, this.beatIndex - 1),
+      time,
+      index: scripted ? entry.cut : undefined,
+      transition: this.lastTransition,
+    };
   }
 }
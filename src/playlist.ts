@@ -0,0 +1,50 @@
+/**
+ * Playlist loading.
+ * The playlist manifest lists the songs to play in order, each with its
+ * own clip set and optional BPM / duration overrides. Without a manifest
+ * the player falls back to the single song in `config.songPath`.
+ */
+
+import { config } from './config';
+
+export interface Track {
+  title: string;
+  artist?: string;
+  /** Song file, relative to public/ */
+  src: string;
+  /** Stop the song after this many seconds */
+  maxDuration?: number;
+  /** Clip manifest path, or an inline list of clips (defaults to config.manifestPath) */
+  clips?: string | string[];
+  /** Force a BPM for this song instead of detecting it */
+  bpm?: number;
+}
+
+/** Fetch the playlist manifest, falling back to the configured single song */
+export async function loadPlaylist(): Promise<Track[]> {
+  try {
+    const res = await fetch(config.playlistPath);
+    if (res.ok) {
+      const tracks = (await res.json()) as Track[];
+      const valid = tracks.filter((t) => t && typeof t.src === 'string');
+      if (valid.length > 0) return valid;
+    }
+  } catch {
+    // No playlist (or the dev server's HTML fallback) — use the single song
+  }
+
+  const name = config.songPath.split('/').pop() ?? config.songPath;
+  return [{ title: name.replace(/\.[^.]+$/, ''), src: config.songPath }];
+}
+
+/** Resolve a track's clip list */
+export async function loadClips(track: Track): Promise<string[]> {
+  if (Array.isArray(track.clips)) return track.clips;
+  const res = await fetch(track.clips ?? config.manifestPath);
+  return res.json();
+}
+
+/** "Artist — Title", or just the title */
+export function trackLabel(track: Track): string {
+  return track.artist ? `${track.artist} — ${track.title}` : track.title;
+}
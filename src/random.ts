@@ -0,0 +1,61 @@
+/**
+ * Seeded randomness.
+ * Every random decision in an edit — clip order, clip in-points, cut
+ * lengths, overlay layouts — draws from a generator seeded from the URL
+ * (`?seed=...`), so sharing the link reproduces the same cut. Each part
+ * of the edit gets its own stream (`${seed}/lane-0`, `${seed}/dither`, ...)
+ * so one consumer drawing more or fewer numbers doesn't shift the others.
+ */
+
+/** Drop-in replacement for Math.random: returns a float in [0, 1) */
+export type Random = () => number;
+
+/** Hash a string to a 32-bit seed (cyrb53, folded) */
+function hashSeed(seed: string): number {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < seed.length; i++) {
+    const ch = seed.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (h1 ^ h2) >>> 0;
+}
+
+/** Mulberry32 generator seeded from any string */
+export function createRandom(seed: string): Random {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Fisher–Yates shuffle in place */
+export function shuffleInPlace<T>(items: T[], random: Random): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
+
+/**
+ * The edit's seed from `?seed=`. Without one, rolls a fresh seed and
+ * writes it into the address bar so the current cut can be shared.
+ */
+export function seedFromUrl(): string {
+  const params = new URLSearchParams(window.location.search);
+  const existing = params.get('seed');
+  if (existing) return existing;
+
+  const seed = Math.floor(Math.random() * 2 ** 32).toString(36);
+  params.set('seed', seed);
+  history.replaceState(null, '', `${window.location.pathname}?${params}${window.location.hash}`);
+  return seed;
+}
@@ -0,0 +1,247 @@
+/**
+ * Render export.
+ * Composites what's on screen — the visible clip (or transition) in
+ * every lane plus each enabled overlay, with its CSS position, opacity,
+ * blend mode, clip-path and the container's filter — into one canvas
+ * once per frame of song time at `config.exportFps`, and records those
+ * frames together with the song through MediaRecorder. The result
+ * downloads as WebM (or MP4 where supported).
+ */
+
+import { config } from './config';
+import type { SongClock } from './audio-transport';
+
+/** Preferred containers/codecs, best first */
+const MIME_TYPES = [
+  'video/mp4;codecs=avc1,mp4a.40.2',
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm',
+];
+
+/** CSS mix-blend-mode → canvas composite operation */
+const BLEND_MODES: Record<string, GlobalCompositeOperation> = {
+  normal: 'source-over',
+  screen: 'screen',
+  multiply: 'multiply',
+  difference: 'difference',
+  'plus-lighter': 'lighter',
+  overlay: 'overlay',
+  lighten: 'lighten',
+  darken: 'darken',
+};
+
+export class RenderRecorder {
+  private app: HTMLElement;
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private stream: MediaStream;
+  private audioDest: MediaStreamAudioDestinationNode;
+  private audio: SongClock;
+  private recorder: MediaRecorder;
+  private chunks: Blob[] = [];
+  private scale = 1;
+  private rafId = 0;
+  private running = false;
+  /** Song-time frame (at `config.exportFps`) last pushed to the recording */
+  private frame = -1;
+  /** Computed styles, looked up once per element for the whole render (they're live) */
+  private styles = new WeakMap<Element, CSSStyleDeclaration>();
+
+  readonly mimeType: string;
+
+  constructor(app: HTMLElement, audio: SongClock, audioCtx: AudioContext) {
+    this.app = app;
+    this.audio = audio;
+
+    // Output keeps the app's aspect ratio at the configured height
+    const rect = app.getBoundingClientRect();
+    this.scale = config.renderHeight / rect.height;
+    this.canvas = document.createElement('canvas');
+    this.canvas.width = Math.round((rect.width * this.scale) / 2) * 2;
+    this.canvas.height = Math.round((rect.height * this.scale) / 2) * 2;
+    this.ctx = this.canvas.getContext('2d')!;
+
+    // Frames are pushed explicitly, one per composite
+    this.stream = this.canvas.captureStream(0);
+    this.audioDest = audioCtx.createMediaStreamDestination();
+    audio.output.connect(this.audioDest);
+    for (const track of this.audioDest.stream.getAudioTracks()) this.stream.addTrack(track);
+
+    this.mimeType = MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ?? '';
+    this.recorder = new MediaRecorder(this.stream, {
+      mimeType: this.mimeType || undefined,
+      videoBitsPerSecond: config.renderBitrate,
+    });
+    this.recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) this.chunks.push(e.data);
+    };
+  }
+
+  /** File extension matching the recorded container */
+  get extension(): string {
+    return this.mimeType.startsWith('video/mp4') ? 'mp4' : 'webm';
+  }
+
+  start() {
+    this.running = true;
+    this.recorder.start(1000);
+    this.tick();
+  }
+
+  /** Finish recording and hand back the file */
+  stop(): Promise<Blob> {
+    this.running = false;
+    cancelAnimationFrame(this.rafId);
+    this.audio.output.disconnect(this.audioDest);
+    return new Promise((resolve) => {
+      this.recorder.onstop = () => {
+        this.stream.getTracks().forEach((t) => t.stop());
+        resolve(new Blob(this.chunks, { type: this.mimeType || 'video/webm' }));
+      };
+      if (this.recorder.state === 'inactive') this.recorder.onstop(new Event('stop'));
+      else this.recorder.stop();
+    });
+  }
+
+  private tick = () => {
+    if (!this.running) return;
+    // One frame per export frame step of the audio clock, whatever the display rate
+    const frame = Math.floor(this.audio.elapsed * config.exportFps);
+    if (frame !== this.frame) {
+      this.frame = frame;
+      this.composite();
+      const track = this.stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack | undefined;
+      track?.requestFrame();
+    }
+    this.rafId = requestAnimationFrame(this.tick);
+  };
+
+  // ─── Compositing ─────────────────────────────────────────────
+
+  private composite() {
+    const ctx = this.ctx;
+    const origin = this.app.getBoundingClientRect();
+    ctx.globalAlpha = 1;
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.filter = 'none';
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+
+    // Video lanes, under the container's filter (invert etc.)
+    const container = this.app.querySelector<HTMLElement>('#video-container');
+    if (container) {
+      ctx.save();
+      ctx.filter = this.style(container).filter || 'none';
+      for (const lane of container.querySelectorAll<HTMLElement>('.video-lane')) {
+        const rect = this.toCanvas(lane.getBoundingClientRect(), origin);
+        ctx.globalAlpha = parseFloat(this.style(lane).opacity);
+        // Mid-transition the lane's canvas already holds both clips
+        const transition = lane.querySelector<HTMLCanvasElement>('.transition-canvas');
+        if (transition && transition.style.display !== 'none') {
+          ctx.drawImage(transition, ...rect);
+          continue;
+        }
+        const video = [...lane.querySelectorAll<HTMLVideoElement>('video')].find(
+          (v) => v.style.visibility !== 'hidden' && v.readyState >= 2,
+        );
+        if (video) this.drawCover(video, rect);
+      }
+      ctx.restore();
+    }
+
+    // Overlays in stacking order
+    const overlays = [...this.app.querySelectorAll<HTMLElement>('[class*="-overlay"]')]
+      .map((el) => ({ el, style: this.style(el) }))
+      .filter(({ style }) => style.display !== 'none' && style.visibility !== 'hidden')
+      .sort((a, b) => (parseInt(a.style.zIndex) || 0) - (parseInt(b.style.zIndex) || 0));
+
+    for (const { el, style } of overlays) {
+      const rect = el.getBoundingClientRect();
+      const [x, y, w, h] = this.toCanvas(rect, origin);
+      ctx.save();
+      ctx.globalAlpha = parseFloat(style.opacity);
+      ctx.globalCompositeOperation = BLEND_MODES[style.mixBlendMode] ?? 'source-over';
+      this.clipInset(style.clipPath, x, y, w, h);
+      if (el instanceof HTMLCanvasElement) {
+        ctx.imageSmoothingEnabled = style.imageRendering !== 'pixelated';
+        if (el.width > 0 && el.height > 0) ctx.drawImage(el, x, y, w, h);
+      } else {
+        this.drawText(el, style, x, y, w, h);
+      }
+      ctx.restore();
+    }
+  }
+
+  private style(el: Element): CSSStyleDeclaration {
+    let style = this.styles.get(el);
+    if (!style) {
+      style = getComputedStyle(el);
+      this.styles.set(el, style);
+    }
+    return style;
+  }
+
+  /** Page rect → output canvas rect [x, y, w, h] */
+  private toCanvas(rect: DOMRect, origin: DOMRect): [number, number, number, number] {
+    return [
+      (rect.left - origin.left) * this.scale,
+      (rect.top - origin.top) * this.scale,
+      rect.width * this.scale,
+      rect.height * this.scale,
+    ];
+  }
+
+  /** object-fit: cover */
+  private drawCover(video: HTMLVideoElement, [x, y, w, h]: [number, number, number, number]) {
+    const vw = video.videoWidth;
+    const vh = video.videoHeight;
+    if (!vw || !vh) return;
+    const scale = Math.max(w / vw, h / vh);
+    const sw = w / scale;
+    const sh = h / scale;
+    this.ctx.drawImage(video, (vw - sw) / 2, (vh - sh) / 2, sw, sh, x, y, w, h);
+  }
+
+  /** Apply a CSS `inset(...)` clip-path; other shapes are ignored */
+  private clipInset(clipPath: string, x: number, y: number, w: number, h: number) {
+    const match = /^inset\(([^)]*)\)/.exec(clipPath);
+    if (!match) return;
+    const parts = match[1].trim().split(/\s+/);
+    const [top, right = top, bottom = top, left = right] = parts;
+    const px = (value: string, size: number) =>
+      value.endsWith('%') ? (parseFloat(value) / 100) * size : parseFloat(value) * this.scale || 0;
+    const t = px(top, h);
+    const r = px(right, w);
+    const b = px(bottom, h);
+    const l = px(left, w);
+    this.ctx.beginPath();
+    this.ctx.rect(x + l, y + t, w - l - r, h - t - b);
+    this.ctx.clip();
+  }
+
+  /** Text overlays (timecode): background box plus the text, as styled */
+  private drawText(el: HTMLElement, style: CSSStyleDeclaration, x: number, y: number, w: number, h: number) {
+    const ctx = this.ctx;
+    if (style.backgroundColor && style.backgroundColor !== 'rgba(0, 0, 0, 0)') {
+      ctx.fillStyle = style.backgroundColor;
+      ctx.fillRect(x, y, w, h);
+    }
+    const fontSize = parseFloat(style.fontSize) * this.scale;
+    ctx.font = `${style.fontWeight} ${fontSize}px ${style.fontFamily}`;
+    ctx.fillStyle = style.color;
+    ctx.textBaseline = 'middle';
+    ctx.fillText(el.textContent ?? '', x + parseFloat(style.paddingLeft) * this.scale, y + h / 2);
+  }
+}
+
+/** Save a finished render as a file download */
+export function downloadRender(blob: Blob, name: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = name;
+  a.click();
+  // Give the download a moment to start before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 10_000);
+}
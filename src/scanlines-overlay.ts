@@ -1,12 +1,17 @@
 /**
  * CRT scan line overlay.
- * Full-screen repeating horizontal lines via CSS gradient.
+ * Full-screen repeating horizontal lines via CSS gradient; each hi-hat
+ * rolls them down a pixel, like a CRT losing hold.
  * Zero performance cost — pure CSS, no canvas.
  */
 
+/** Height of one line and its gap (px), as in the CSS gradient */
+const LINE_PERIOD = 3;
+
 export class ScanlinesOverlay {
   private el: HTMLDivElement;
   private visible = false;
+  private roll = 0;
 
   constructor(container: HTMLElement) {
     this.el = document.createElement('div');
@@ -15,6 +20,18 @@ export class ScanlinesOverlay {
     container.appendChild(this.el);
   }
 
+  /** Call on a hi-hat — rolls the lines down a pixel */
+  pulse() {
+    if (!this.visible) return;
+    this.roll = (this.roll + 1) % LINE_PERIOD;
+    this.el.style.backgroundPosition = `0 ${this.roll}px`;
+  }
+
+  /** The element it draws into, for the layer stack */
+  get element(): HTMLElement {
+    return this.el;
+  }
+
   toggle(): boolean {
     this.visible = !this.visible;
     this.el.style.display = this.visible ? 'block' : 'none';
@@ -0,0 +1,185 @@
+/**
+ * FX scenes.
+ * A scene switches the whole effect stack at once: which effects are on,
+ * the params each one pins, and optionally the layer stack and effect
+ * params (the params panel's values). Pinned params
+ * are laid back over every shuffle while the scene is up, so a scene with
+ * the dither in `sphere` mode keeps spheres while positions and sizes
+ * still move with the cuts. Scenes are recalled with Shift + a number key
+ * or the pad's SCENE button, saved from the fx-dialog, and persist in
+ * localStorage.
+ */
+
+import { config } from './config';
+import type { Layer } from './layers';
+import type { ParamValues } from './params';
+
+export interface Scene {
+  name: string;
+  /** Effects switched on, each with the params it pins; every other effect goes off */
+  fx: Record<string, Record<string, unknown>>;
+  /** Layer stack to load, if the scene sets one */
+  layers?: Layer[];
+  /** Effect params to load, by effect, if the scene sets them */
+  params?: Record<string, ParamValues>;
+}
+
+const STORAGE_KEY = 'fx-scenes';
+
+/** Scene slots reachable from the keyboard: Shift+1–9, then Shift+0 */
+const SLOT_COUNT = 10;
+
+export class SceneBank {
+  private scenes: Scene[];
+
+  /** Fires after any scene is saved or removed */
+  onChange: (() => void) | null = null;
+
+  /** Starts from the saved bank, or `config.scenes` when nothing is saved */
+  constructor() {
+    this.scenes = readSaved() ?? config.scenes.map(cloneScene);
+  }
+
+  get list(): readonly Scene[] {
+    return this.scenes;
+  }
+
+  /** Add a scene at the end, or replace the one at `index` */
+  save(scene: Scene, index = this.scenes.length) {
+    this.scenes[Math.min(index, this.scenes.length)] = cloneScene(scene);
+    this.changed();
+  }
+
+  remove(index: number) {
+    if (index < 0 || index >= this.scenes.length) return;
+    this.scenes.splice(index, 1);
+    this.changed();
+  }
+
+  private changed() {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.scenes));
+    } catch {
+      // Private mode / storage full: scenes just won't persist
+    }
+    this.onChange?.();
+  }
+}
+
+/**
+ * Scene slot for a keydown — Shift+1 is the first, Shift+0 the tenth — or
+ * -1. Matched on `code`, since Shift changes the key's character.
+ */
+export function sceneForKey(e: KeyboardEvent): number {
+  if (!e.shiftKey) return -1;
+  const match = /^Digit(\d)$/.exec(e.code);
+  if (!match) return -1;
+  return (Number(match[1]) + SLOT_COUNT - 1) % SLOT_COUNT;
+}
+
+/**
+ * The params a saved scene pins from a snapshot: the categorical ones
+ * (modes, shapes, sides). Positions and sizes are left to the shuffles.
+ */
+export function pinnedParams(state: unknown): Record<string, unknown> {
+  const pinned: Record<string, unknown> = {};
+  if (!state || typeof state !== 'object') return pinned;
+  for (const [key, value] of Object.entries(state)) {
+    if (typeof value === 'string' || typeof value === 'boolean') pinned[key] = value;
+  }
+  return pinned;
+}
+
+/**
+ * The fx-dialog's scene row: one button per scene (click recalls, ✕
+ * removes) plus SAVE, which stores the current look as a new scene.
+ * Returns a function that marks the scene now on screen.
+ */
+export function renderSceneRow(
+  dialog: HTMLElement,
+  bank: SceneBank,
+  onRecall: (index: number) => void,
+  onSave: (name: string) => void,
+): (index: number) => void {
+  const row = document.createElement('div');
+  row.className = 'fx-row fx-scenes';
+  const label = document.createElement('span');
+  label.textContent = 'Scenes';
+  const list = document.createElement('div');
+  list.className = 'scene-list';
+  const saveBtn = document.createElement('button');
+  saveBtn.className = 'scene-btn';
+  saveBtn.textContent = 'SAVE';
+  saveBtn.title = 'Save the current look as a scene';
+  saveBtn.onclick = () => {
+    const name = prompt('Scene name', `Scene ${bank.list.length + 1}`);
+    if (name) onSave(name.trim() || `Scene ${bank.list.length + 1}`);
+  };
+  row.append(label, list, saveBtn);
+
+  // Ahead of the export row, after the effect rows
+  dialog.insertBefore(row, dialog.querySelector('.fx-export'));
+
+  let current = -1;
+  const render = () => {
+    list.innerHTML = '';
+    bank.list.forEach((scene, i) => {
+      const item = document.createElement('span');
+      item.className = 'scene-item';
+      const btn = document.createElement('button');
+      btn.className = 'scene-btn';
+      btn.classList.toggle('active', i === current);
+      btn.textContent = scene.name;
+      btn.title = i < SLOT_COUNT ? `Shift+${(i + 1) % SLOT_COUNT}` : '';
+      btn.dataset.midi = `scene:${i}`;
+      btn.onclick = () => onRecall(i);
+      const remove = document.createElement('button');
+      remove.className = 'scene-remove';
+      remove.textContent = '✕';
+      remove.title = `Remove ${scene.name}`;
+      remove.onclick = () => {
+        if (i === current) current = -1;
+        else if (i < current) current--;
+        bank.remove(i);
+      };
+      item.append(btn, remove);
+      list.appendChild(item);
+    });
+  };
+  bank.onChange = render;
+  render();
+
+  return (index: number) => {
+    current = index;
+    render();
+  };
+}
+
+function cloneScene(scene: Scene): Scene {
+  return JSON.parse(JSON.stringify(scene));
+}
+
+function readSaved(): Scene[] | null {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (!Array.isArray(saved)) return null;
+    return saved.filter((s) => s && typeof s.name === 'string' && isObject(s.fx)).map(cleanScene);
+  } catch {
+    return null;
+  }
+}
+
+/** A saved scene minus what recall would choke on: non-object pins, a malformed stack or params */
+function cleanScene(saved: Scene): Scene {
+  const scene: Scene = { name: saved.name, fx: {} };
+  for (const [name, pinned] of Object.entries(saved.fx)) {
+    if (isObject(pinned)) scene.fx[name] = pinned;
+  }
+  if (Array.isArray(saved.layers)) scene.layers = saved.layers;
+  if (isObject(saved.params)) scene.params = saved.params;
+  return scene;
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === 'object' && !Array.isArray(v);
+}
@@ -1,11 +1,21 @@
 /**
  * Strobe overlay.
- * Full-screen white flash on every beat cut, fades out quickly.
+ * Full-screen flash (white by default) on every beat cut, and a dimmer
+ * one on every kick; both fade out quickly.
  */
 
+import { defaults, type ParamSchema, type ParamValues } from './params';
+
+export const STROBE_PARAMS = {
+  color: { type: 'color', label: 'Color', default: '#ffffff' },
+  /** Strength of the flash on kicks, against a full one on cuts (0: cuts only) */
+  kickFlash: { type: 'number', label: 'Kick flash', min: 0, max: 1, step: 0.05, default: 0.4 },
+} satisfies ParamSchema;
+
 export class StrobeOverlay {
   private el: HTMLDivElement;
   private enabled = false;
+  private params = defaults(STROBE_PARAMS);
 
   constructor(container: HTMLElement) {
     this.el = document.createElement('div');
@@ -15,11 +25,30 @@ export class StrobeOverlay {
 
   /** Call on every clip swap — flashes if enabled */
   flash() {
-    if (!this.enabled) return;
-    this.el.style.opacity = '1';
-    // Force reflow so the transition triggers from 1 → 0
+    if (this.enabled) this.fire(this.params.color);
+  }
+
+  /** Call on a kick — a dimmer flash, if enabled */
+  pulse() {
+    if (!this.enabled || this.params.kickFlash === 0) return;
+    this.fire(`color-mix(in srgb, ${this.params.color} ${this.params.kickFlash * 100}%, transparent)`);
+  }
+
+  private fire(color: string) {
+    // Flashes through the background, leaving opacity to the layer stack
+    this.el.style.backgroundColor = color;
+    // Force reflow so the transition triggers from the flash → transparent
     this.el.offsetHeight;
-    this.el.style.opacity = '0';
+    this.el.style.backgroundColor = 'transparent';
+  }
+
+  setParams(values: ParamValues<typeof STROBE_PARAMS>) {
+    this.params = values;
+  }
+
+  /** The element it draws into, for the layer stack */
+  get element(): HTMLElement {
+    return this.el;
   }
 
   toggle(): boolean {
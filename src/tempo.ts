@@ -0,0 +1,250 @@
+/**
+ * Tempo correction.
+ * Fixes a beat grid the analysis got wrong while the song plays: tap
+ * tempo lays an even grid at the tapped BPM through the taps, half/double
+ * time drops or splits beats, and nudges shift the whole grid earlier or
+ * later. A correction is a small record laid over the analysed BeatData —
+ * bars, sections and drum hits carry over — and can be saved per song in
+ * localStorage, so the song comes back corrected.
+ */
+
+import { config } from './config';
+import { tempoCurve, type BeatData } from './beat-detect';
+
+export interface TempoCorrection {
+  /** Tapped tempo, and a song time one of its beats lands on; replaces the detected beats */
+  tapped?: { bpm: number; anchor: number };
+  /** Half/double-time steps: -1 is half time, 1 double time */
+  octave: number;
+  /** Seconds added to every beat */
+  offset: number;
+}
+
+/** What the tempo row's buttons, keys and MIDI targets do */
+export type TempoAction = 'tap' | 'half' | 'double' | 'earlier' | 'later' | 'save' | 'reset';
+
+export const NO_CORRECTION: TempoCorrection = { octave: 0, offset: 0 };
+
+const STORAGE_KEY = 'tempo-corrections';
+
+/** Taps needed before there's a tempo, and how many recent ones it's taken from */
+const MIN_TAPS = 3;
+const TAP_HISTORY = 8;
+
+/** Half/double time goes at most this many steps either way */
+const MAX_OCTAVE = 2;
+
+/** Tempo from a run of taps */
+export class TapTempo {
+  private taps: number[] = [];
+
+  /**
+   * Tap at song time `time`. Returns the tempo once there are enough
+   * taps; a long pause (or a tap behind the last, after a seek) starts over.
+   */
+  tap(time: number): TempoCorrection['tapped'] | null {
+    const last = this.taps[this.taps.length - 1];
+    if (last !== undefined && (time <= last || time - last > config.tapTimeout)) this.taps = [];
+    this.taps.push(time);
+    if (this.taps.length > TAP_HISTORY) this.taps.shift();
+    if (this.taps.length < MIN_TAPS) return null;
+
+    // Median interval, so one rushed tap doesn't skew it
+    const intervals = this.taps.slice(1).map((t, i) => t - this.taps[i]).sort((a, b) => a - b);
+    const interval = intervals[Math.floor(intervals.length / 2)];
+    // Phase: the grid through the taps' average position
+    const anchor = this.taps.reduce((sum, t, i) => sum + t - i * interval, 0) / this.taps.length;
+    return { bpm: 60 / interval, anchor };
+  }
+
+  reset() {
+    this.taps = [];
+  }
+}
+
+/** `correction` with half/double time stepped by `delta`, within limits */
+export function stepOctave(correction: TempoCorrection, delta: number): TempoCorrection {
+  const octave = Math.max(-MAX_OCTAVE, Math.min(correction.octave + delta, MAX_OCTAVE));
+  return { ...correction, octave };
+}
+
+/** `correction` nudged `steps` × `config.nudgeStep` later (negative: earlier) */
+export function nudge(correction: TempoCorrection, steps: number): TempoCorrection {
+  const offset = Math.round((correction.offset + steps * config.nudgeStep) * 1000) / 1000;
+  return { ...correction, offset };
+}
+
+export function isCorrected(correction: TempoCorrection): boolean {
+  return !!correction.tapped || correction.octave !== 0 || correction.offset !== 0;
+}
+
+/**
+ * The analysis with `correction` applied, over a song `duration` seconds
+ * long. Each beat keeps the confidence of the detected beat nearest it;
+ * bars restart on the beat nearest the first detected downbeat, and
+ * sections start on the first beat at or after their start time.
+ */
+export function applyCorrection(data: BeatData, correction: TempoCorrection, duration: number): BeatData {
+  if (!isCorrected(correction)) return data;
+
+  let beats = correction.tapped
+    ? evenGrid(correction.tapped.bpm, correction.tapped.anchor, duration)
+    : [...data.beats];
+  const firstDownbeat = data.beats[data.downbeats[0]] ?? 0;
+  for (let i = 0; i < correction.octave; i++) beats = doubleTime(beats, duration);
+  for (let i = 0; i > correction.octave; i--) beats = halfTime(beats, nearest(beats, firstDownbeat));
+  beats = beats.map((t) => t + correction.offset).filter((t) => t >= 0 && t < duration);
+  if (beats.length === 0) return data;
+
+  const confidence = beats.map((t) => data.confidence[nearest(data.beats, t)] ?? 0);
+  const bpm = (correction.tapped?.bpm ?? data.bpm) * 2 ** correction.octave;
+
+  const downbeats: number[] = [];
+  const first = nearest(beats, firstDownbeat + correction.offset) % data.meter;
+  for (let i = first; i < beats.length; i += data.meter) downbeats.push(i);
+
+  const sections = data.sections.map((section) => {
+    const startBeat = beats.findIndex((t) => t >= section.start);
+    return { ...section, startBeat: startBeat === -1 ? beats.length - 1 : startBeat };
+  });
+
+  return {
+    ...data,
+    bpm: Math.round(bpm * 10) / 10,
+    beats,
+    confidence,
+    tempo: tempoCurve(beats, bpm),
+    downbeats,
+    sections,
+  };
+}
+
+/** Beats every 60 / `bpm` seconds through `anchor`, across the song */
+function evenGrid(bpm: number, anchor: number, duration: number): number[] {
+  const interval = 60 / bpm;
+  const beats: number[] = [];
+  for (let t = ((anchor % interval) + interval) % interval; t < duration; t += interval) beats.push(t);
+  return beats;
+}
+
+/** A beat between every pair, and one after the last */
+function doubleTime(beats: number[], duration: number): number[] {
+  const doubled: number[] = [];
+  beats.forEach((t, i) => {
+    const next = beats[i + 1] ?? t + (t - (beats[i - 1] ?? t));
+    doubled.push(t);
+    if (next > t && (t + next) / 2 < duration) doubled.push((t + next) / 2);
+  });
+  return doubled;
+}
+
+/** Every other beat, keeping the one at index `keep` */
+function halfTime(beats: number[], keep: number): number[] {
+  return beats.filter((_, i) => i % 2 === keep % 2);
+}
+
+/** Index of the beat nearest `time` (beats ascending) */
+function nearest(beats: number[], time: number): number {
+  let lo = 0;
+  let hi = beats.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (beats[mid] < time) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo > 0 && time - beats[lo - 1] < beats[lo] - time ? lo - 1 : lo;
+}
+
+/** The correction saved for `song`, if any */
+export function loadCorrection(song: string): TempoCorrection | null {
+  const saved = readSaved()[song];
+  if (!saved || typeof saved !== 'object') return null;
+  const { tapped, octave, offset } = saved as Partial<TempoCorrection>;
+  if (typeof octave !== 'number' || typeof offset !== 'number') return null;
+  const validTap = tapped && Number.isFinite(tapped.bpm) && tapped.bpm > 0 && Number.isFinite(tapped.anchor);
+  return { tapped: validTap ? tapped : undefined, octave, offset };
+}
+
+/** Save `correction` for `song` (null or no correction forgets it) */
+export function saveCorrection(song: string, correction: TempoCorrection | null) {
+  const all = readSaved();
+  if (correction && isCorrected(correction)) all[song] = correction;
+  else delete all[song];
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+  } catch {
+    // Private mode / storage full: the correction just won't persist
+  }
+}
+
+/**
+ * The fx-dialog's tempo row: the BPM in use, tap, half/double, nudge,
+ * save and reset buttons. Each button is a MIDI target too ('tempo:tap',
+ * …). Returns a function that shows the current BPM and correction.
+ */
+export function renderTempoRow(
+  dialog: HTMLElement,
+  onAction: (action: TempoAction) => void,
+): (bpm: number, correction: TempoCorrection, saved: boolean) => void {
+  const row = document.createElement('div');
+  row.className = 'fx-row fx-tempo';
+  const label = document.createElement('span');
+  row.appendChild(label);
+
+  const buttons: [TempoAction, string, string][] = [
+    ['tap', 'TAP', 'Tap tempo (B)'],
+    ['half', '½', 'Half time (-)'],
+    ['double', '×2', 'Double time (=)'],
+    ['earlier', '◀', 'Nudge the grid earlier ([)'],
+    ['later', '▶', 'Nudge the grid later (])'],
+    ['save', 'SAVE', 'Keep this grid for the song'],
+    ['reset', 'RESET', 'Back to the detected grid'],
+  ];
+  const saveBtn = document.createElement('button');
+  for (const [action, text, title] of buttons) {
+    const btn = action === 'save' ? saveBtn : document.createElement('button');
+    btn.className = 'tempo-btn';
+    btn.textContent = text;
+    btn.title = title;
+    btn.dataset.midi = `tempo:${action}`;
+    btn.onclick = () => onAction(action);
+    row.appendChild(btn);
+  }
+
+  // Ahead of the scene and export rows
+  dialog.insertBefore(row, dialog.querySelector('.fx-scenes') ?? dialog.querySelector('.fx-export'));
+
+  return (bpm, correction, saved) => {
+    const offset = correction.offset === 0 ? '' : ` ${correction.offset > 0 ? '+' : ''}${Math.round(correction.offset * 1000)}ms`;
+    label.textContent = `${bpm.toFixed(1)} BPM${offset}`;
+    saveBtn.classList.toggle('active', saved);
+  };
+}
+
+/** Tempo action for a keydown, if it's one of the tempo keys */
+export function tempoForKey(key: string): TempoAction | null {
+  switch (key) {
+    case 'b':
+    case 'B':
+      return 'tap';
+    case '-':
+      return 'half';
+    case '=':
+      return 'double';
+    case '[':
+      return 'earlier';
+    case ']':
+      return 'later';
+    default:
+      return null;
+  }
+}
+
+function readSaved(): Record<string, unknown> {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    return saved && typeof saved === 'object' && !Array.isArray(saved) ? saved : {};
+  } catch {
+    return {};
+  }
+}
@@ -1,41 +1,64 @@
 /**
  * Threshold overlay effect.
- * Samples the active video, applies a hard black/white threshold,
- * renders at quarter viewport size at a random position.
+ * Thresholds the active video to hard black/white on the GPU and
+ * renders it at quarter viewport size at a random position.
  * Only white pixels are visible — black becomes transparent.
  */
 
+import { getSampler, type FrameSampler } from './frame-sampler';
+import { defaults, type ParamSchema, type ParamValues } from './params';
 import type { VideoPlayer } from './player';
+import type { Random } from './random';
 
-/** Only pixels brighter than this become visible */
-const THRESHOLD = 200;
-/** Downscale factor for the internal canvas (performance) */
-const SAMPLE_SCALE = 0.5;
+/** Where the last shuffle put the overlay — recorded per cut for replay */
+export interface ThresholdState {
+  left: number;
+  top: number;
+}
+
+/** Whether a recorded state (from a take file) can be restored */
+export function isThresholdState(state: unknown): state is ThresholdState {
+  const s = state as Partial<ThresholdState> | null;
+  return !!s && typeof s === 'object' && Number.isFinite(s.left) && Number.isFinite(s.top);
+}
+
+export const THRESHOLD_PARAMS = {
+  /** Only pixels brighter than this become visible */
+  level: { type: 'number', label: 'Threshold', min: 0, max: 255, step: 1, default: 200 },
+  /** How far a kick drops the threshold, letting more of the frame blow out */
+  pulseDepth: { type: 'number', label: 'Kick pulse', min: 0, max: 200, step: 1, default: 90 },
+  /** Downscale factor for the threshold pass (performance, and the blocky look) */
+  resolution: { type: 'number', label: 'Resolution', min: 0.1, max: 1, step: 0.05, default: 0.5 },
+} satisfies ParamSchema;
+
+/** Per-frame decay of the kick pulse */
+const PULSE_DECAY = 0.85;
 
 export class ThresholdOverlay {
   private canvas: HTMLCanvasElement;
-  private ctx: CanvasRenderingContext2D;
-  private offscreen: HTMLCanvasElement;
-  private offCtx: CanvasRenderingContext2D;
+  private sampler: FrameSampler;
+  private sampleW = 0;
+  private sampleH = 0;
   private player: VideoPlayer;
   private container: HTMLElement;
   private visible = false;
   private rafId = 0;
   private running = false;
+  private pulseLevel = 0;
+  private random: Random;
+  private params = defaults(THRESHOLD_PARAMS);
 
-  constructor(container: HTMLElement, player: VideoPlayer) {
+  constructor(container: HTMLElement, player: VideoPlayer, random: Random = Math.random) {
     this.player = player;
     this.container = container;
+    this.random = random;
 
     this.canvas = document.createElement('canvas');
     this.canvas.className = 'threshold-overlay';
     this.canvas.style.display = 'none';
     container.appendChild(this.canvas);
-    this.ctx = this.canvas.getContext('2d')!;
 
-    // Offscreen canvas for pixel manipulation
-    this.offscreen = document.createElement('canvas');
-    this.offCtx = this.offscreen.getContext('2d', { willReadFrequently: true })!;
+    this.sampler = getSampler();
 
     this.resize();
     window.addEventListener('resize', this.resize);
@@ -53,9 +76,9 @@ export class ThresholdOverlay {
     this.canvas.style.width = qw + 'px';
     this.canvas.style.height = qh + 'px';
 
-    // Offscreen at reduced resolution for performance
-    this.offscreen.width = Math.floor(qw * SAMPLE_SCALE);
-    this.offscreen.height = Math.floor(qh * SAMPLE_SCALE);
+    // Threshold at reduced resolution for the blocky look
+    this.sampleW = Math.floor(qw * this.params.resolution);
+    this.sampleH = Math.floor(qh * this.params.resolution);
   };
 
   /** Randomize position within the video half only */
@@ -67,8 +90,38 @@ export class ThresholdOverlay {
     // Constrain to the video half (left 50% by default, CSS clip-path handles the rest)
     const maxX = Math.max(0, Math.floor(cw / 2) - qw);
     const maxY = ch - qh;
-    this.canvas.style.left = Math.floor(Math.random() * maxX) + 'px';
-    this.canvas.style.top = Math.floor(Math.random() * maxY) + 'px';
+    this.canvas.style.left = Math.floor(this.random() * maxX) + 'px';
+    this.canvas.style.top = Math.floor(this.random() * maxY) + 'px';
+  }
+
+  snapshot(): ThresholdState {
+    return { left: parseFloat(this.canvas.style.left) || 0, top: parseFloat(this.canvas.style.top) || 0 };
+  }
+
+  restore(state: ThresholdState) {
+    this.canvas.style.left = state.left + 'px';
+    this.canvas.style.top = state.top + 'px';
+  }
+
+  /** Call on a kick — briefly lowers the threshold so the frame flares */
+  pulse() {
+    this.pulseLevel = 1;
+  }
+
+  /** Sample a different lane's video from now on */
+  setPlayer(player: VideoPlayer) {
+    this.player = player;
+  }
+
+  setParams(values: ParamValues<typeof THRESHOLD_PARAMS>) {
+    const resized = values.resolution !== this.params.resolution;
+    this.params = values;
+    if (resized) this.resize();
+  }
+
+  /** The element it draws into, for the layer stack */
+  get element(): HTMLElement {
+    return this.canvas;
   }
 
   toggle(): boolean {
@@ -99,44 +152,9 @@ export class ThresholdOverlay {
 
     const video = this.player.activeVideo;
     if (video && video.readyState >= 2) {
-      const ow = this.offscreen.width;
-      const oh = this.offscreen.height;
-
-      // Draw video frame with cover-fit to preserve aspect ratio
-      const vw = video.videoWidth || ow;
-      const vh = video.videoHeight || oh;
-      const canvasRatio = ow / oh;
-      const videoRatio = vw / vh;
-      let sx = 0, sy = 0, sw = vw, sh = vh;
-      if (videoRatio > canvasRatio) {
-        sw = vh * canvasRatio;
-        sx = (vw - sw) / 2;
-      } else {
-        sh = vw / canvasRatio;
-        sy = (vh - sh) / 2;
-      }
-      this.offCtx.drawImage(video, sx, sy, sw, sh, 0, 0, ow, oh);
-      const imageData = this.offCtx.getImageData(0, 0, ow, oh);
-      const d = imageData.data;
-
-      // Threshold: bright pixels → solid white, dark → transparent
-      for (let i = 0; i < d.length; i += 4) {
-        const luma = d[i] * 0.299 + d[i + 1] * 0.587 + d[i + 2] * 0.114;
-        if (luma >= THRESHOLD) {
-          d[i] = d[i + 1] = d[i + 2] = 255;
-          d[i + 3] = 255;
-        } else {
-          d[i + 3] = 0;
-        }
-      }
-
-      this.offCtx.putImageData(imageData, 0, 0);
-
-      // Draw upscaled to the display canvas
-      const ctx = this.ctx;
-      ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
-      ctx.imageSmoothingEnabled = false;
-      ctx.drawImage(this.offscreen, 0, 0, this.canvas.width, this.canvas.height);
+      const level = this.params.level - this.params.pulseDepth * this.pulseLevel;
+      this.pulseLevel *= PULSE_DECAY;
+      this.sampler.blit(this.canvas, video, 'threshold', this.sampleW, this.sampleH, { uniforms: { u_level: level } });
     }
 
     this.rafId = requestAnimationFrame(this.draw);
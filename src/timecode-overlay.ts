@@ -25,6 +25,16 @@ export class TimecodeOverlay {
     container.appendChild(this.el);
   }
 
+  /** Re-sync after a seek (`startTime` = audio clock time of 0:00) */
+  seek(startTime: number) {
+    this.startTime = startTime;
+  }
+
+  /** The element it draws into, for the layer stack */
+  get element(): HTMLElement {
+    return this.el;
+  }
+
   toggle(): boolean {
     this.visible = !this.visible;
     this.el.style.display = this.visible ? 'block' : 'none';
@@ -5,7 +5,10 @@
  * in the video and stop when paused/ended.
  */
 
+import { getSampler, type FrameSubscription } from './frame-sampler';
+import { defaults, withAlpha, type ParamSchema, type ParamValues } from './params';
 import type { VideoPlayer } from './player';
+import { createRandom, type Random } from './random';
 
 interface TrackingBox {
   x: number;
@@ -29,15 +32,38 @@ interface Crosshair {
   driftCountdown: number;
 }
 
-const BOX_COUNT = 5;
+/** Where the last shuffle sent the boxes and crosshairs — recorded per cut for replay */
+export interface TrackingState {
+  boxes: { x: number; y: number; w: number; h: number }[];
+  crosshairs: { x: number; y: number }[];
+}
+
+/** Whether a recorded state (from a take file) can be restored */
+export function isTrackingState(state: unknown): state is TrackingState {
+  const s = state as Partial<TrackingState> | null;
+  const isPoint = (p: unknown, keys: string[]) =>
+    !!p && typeof p === 'object' && keys.every((k) => Number.isFinite((p as Record<string, unknown>)[k]));
+  return !!s && typeof s === 'object' &&
+    Array.isArray(s.boxes) && s.boxes.every((b) => isPoint(b, ['x', 'y', 'w', 'h'])) &&
+    Array.isArray(s.crosshairs) && s.crosshairs.every((c) => isPoint(c, ['x', 'y']));
+}
+
+export const TRACKING_PARAMS = {
+  boxes: { type: 'number', label: 'Boxes', min: 0, max: 12, step: 1, default: 5 },
+  /** How quickly boxes close on their targets, per frame */
+  speed: { type: 'number', label: 'Follow speed', min: 0.01, max: 0.5, step: 0.01, default: 0.08 },
+  color: { type: 'color', label: 'Color', default: '#ffffff' },
+} satisfies ParamSchema;
+
 const CROSSHAIR_COUNT = 3;
 const BRACKET_LEN = 14;
 const LINE_WIDTH = 1.5;
-const LERP_SPEED = 0.08;
-const COLOR = 'rgba(255, 255, 255, 0.85)';
-const LABEL_COLOR = 'rgba(255, 255, 255, 0.5)';
+const COLOR_ALPHA = 0.85;
+const LABEL_ALPHA = 0.5;
 const DRIFT_RANGE = 60;
 const DRIFT_INTERVAL = 90;
+/** How far a snare kicks the boxes off their current position (px) */
+const PULSE_JOLT = 24;
 
 /** Grid size for brightness sampling */
 const SAMPLE_COLS = 8;
@@ -48,17 +74,23 @@ export class TrackingOverlay {
   private ctx: CanvasRenderingContext2D;
   private container: HTMLElement;
   private player: VideoPlayer;
-  private sampleCanvas: HTMLCanvasElement;
-  private sampleCtx: CanvasRenderingContext2D;
+  private samples: FrameSubscription;
   private boxes: TrackingBox[] = [];
   private crosshairs: Crosshair[] = [];
   private visible = false;
   private rafId = 0;
   private running = false;
+  private random: Random;
+  private drift: Random;
+  private params = defaults(TRACKING_PARAMS);
 
-  constructor(container: HTMLElement, player: VideoPlayer) {
+  constructor(container: HTMLElement, player: VideoPlayer, random: Random = Math.random) {
     this.container = container;
     this.player = player;
+    this.random = random;
+    // Per-frame drift gets its own stream so frame rate can't shift the
+    // numbers shuffle() draws
+    this.drift = createRandom(String(random()));
     this.canvas = document.createElement('canvas');
     this.canvas.className = 'tracking-overlay';
     this.canvas.style.display = 'none';
@@ -66,11 +98,7 @@ export class TrackingOverlay {
 
     this.ctx = this.canvas.getContext('2d')!;
 
-    // Small offscreen canvas for sampling video brightness
-    this.sampleCanvas = document.createElement('canvas');
-    this.sampleCanvas.width = SAMPLE_COLS;
-    this.sampleCanvas.height = SAMPLE_ROWS;
-    this.sampleCtx = this.sampleCanvas.getContext('2d', { willReadFrequently: true })!;
+    this.samples = getSampler().subscribe({ width: SAMPLE_COLS, height: SAMPLE_ROWS, format: 'luma' });
 
     this.resize();
     window.addEventListener('resize', this.resize);
@@ -98,40 +126,43 @@ export class TrackingOverlay {
     const w = this.halfW;
     const h = this.vh;
 
-    for (let i = 0; i < BOX_COUNT; i++) {
-      const bw = 80 + Math.random() * 200;
-      const bh = 60 + Math.random() * 150;
-      const x = Math.random() * (w - bw);
-      const y = Math.random() * (h - bh);
-      this.boxes.push({
-        x, y, w: bw, h: bh,
-        tx: x, ty: y, tw: bw, th: bh,
-        label: this.fakeCoord(x, y),
-        driftCountdown: this.randDriftInterval(),
-      });
-    }
+    for (let i = 0; i < this.params.boxes; i++) this.boxes.push(this.createBox(this.random));
 
     for (let i = 0; i < CROSSHAIR_COUNT; i++) {
-      const x = Math.random() * w;
-      const y = Math.random() * h;
+      const x = this.random() * w;
+      const y = this.random() * h;
       this.crosshairs.push({
         x, y, tx: x, ty: y,
-        size: 8 + Math.random() * 12,
+        size: 8 + this.random() * 12,
         driftCountdown: this.randDriftInterval(),
       });
     }
   }
 
+  /** A box at a random spot in the video half, drawing from `random` */
+  private createBox(random: Random): TrackingBox {
+    const bw = 80 + random() * 200;
+    const bh = 60 + random() * 150;
+    const x = random() * (this.halfW - bw);
+    const y = random() * (this.vh - bh);
+    return {
+      x, y, w: bw, h: bh,
+      tx: x, ty: y, tw: bw, th: bh,
+      label: this.fakeCoord(x, y),
+      driftCountdown: this.randDriftInterval(),
+    };
+  }
+
   private fakeCoord(x: number, y: number): string {
     return `${x.toFixed(1)}, ${y.toFixed(1)}`;
   }
 
   private randDriftInterval(): number {
-    return Math.floor(DRIFT_INTERVAL * (0.7 + Math.random() * 0.6));
+    return Math.floor(DRIFT_INTERVAL * (0.7 + this.drift() * 0.6));
   }
 
   private nudge(val: number, range: number, max: number): number {
-    return Math.max(0, Math.min(max, val + (Math.random() - 0.5) * 2 * range));
+    return Math.max(0, Math.min(max, val + (this.drift() - 0.5) * 2 * range));
   }
 
   /**
@@ -145,32 +176,18 @@ export class TrackingOverlay {
     const w = this.halfW;
     const h = this.vh;
 
-    // Draw video cover-fit into the small sample canvas
-    const vw = video.videoWidth || SAMPLE_COLS;
-    const vhh = video.videoHeight || SAMPLE_ROWS;
-    const canvasRatio = SAMPLE_COLS / SAMPLE_ROWS;
-    const videoRatio = vw / vhh;
-    let sx = 0, sy = 0, sw = vw, sh = vhh;
-    if (videoRatio > canvasRatio) {
-      sw = vhh * canvasRatio;
-      sx = (vw - sw) / 2;
-    } else {
-      sh = vw / canvasRatio;
-      sy = (vhh - sh) / 2;
-    }
-    this.sampleCtx.drawImage(video, sx, sy, sw, sh, 0, 0, SAMPLE_COLS, SAMPLE_ROWS);
-    const data = this.sampleCtx.getImageData(0, 0, SAMPLE_COLS, SAMPLE_ROWS).data;
+    // A few cover-fit pixels from the shared sampler
+    const data = this.samples.read(video);
+    if (!data) return [];
 
     // Compute brightness per cell
     const cells: { x: number; y: number; luma: number }[] = [];
     for (let r = 0; r < SAMPLE_ROWS; r++) {
       for (let c = 0; c < SAMPLE_COLS; c++) {
-        const i = (r * SAMPLE_COLS + c) * 4;
-        const luma = data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
         cells.push({
           x: ((c + 0.5) / SAMPLE_COLS) * w,
           y: ((r + 0.5) / SAMPLE_ROWS) * h,
-          luma,
+          luma: data[r * SAMPLE_COLS + c],
         });
       }
     }
@@ -194,17 +211,17 @@ export class TrackingOverlay {
 
     for (let i = 0; i < this.boxes.length; i++) {
       const box = this.boxes[i];
-      box.tw = 80 + Math.random() * 200;
-      box.th = 60 + Math.random() * 150;
+      box.tw = 80 + this.random() * 200;
+      box.th = 60 + this.random() * 150;
 
       if (hotspots.length > 0) {
         // Pick from top hotspots with some jitter
         const spot = hotspots[i % hotspots.length];
-        box.tx = Math.max(0, Math.min(w - box.tw, spot.x - box.tw / 2 + (Math.random() - 0.5) * 40));
-        box.ty = Math.max(0, Math.min(h - box.th, spot.y - box.th / 2 + (Math.random() - 0.5) * 40));
+        box.tx = Math.max(0, Math.min(w - box.tw, spot.x - box.tw / 2 + (this.random() - 0.5) * 40));
+        box.ty = Math.max(0, Math.min(h - box.th, spot.y - box.th / 2 + (this.random() - 0.5) * 40));
       } else {
-        box.tx = Math.random() * (w - box.tw);
-        box.ty = Math.random() * (h - box.th);
+        box.tx = this.random() * (w - box.tw);
+        box.ty = this.random() * (h - box.th);
       }
       box.label = this.fakeCoord(box.tx, box.ty);
     }
@@ -213,15 +230,74 @@ export class TrackingOverlay {
       const ch = this.crosshairs[i];
       if (hotspots.length > i) {
         const spot = hotspots[i];
-        ch.tx = Math.max(0, Math.min(w, spot.x + (Math.random() - 0.5) * 30));
-        ch.ty = Math.max(0, Math.min(h, spot.y + (Math.random() - 0.5) * 30));
+        ch.tx = Math.max(0, Math.min(w, spot.x + (this.random() - 0.5) * 30));
+        ch.ty = Math.max(0, Math.min(h, spot.y + (this.random() - 0.5) * 30));
       } else {
-        ch.tx = Math.random() * w;
-        ch.ty = Math.random() * h;
+        ch.tx = this.random() * w;
+        ch.ty = this.random() * h;
       }
     }
   }
 
+  snapshot(): TrackingState {
+    return {
+      boxes: this.boxes.map((b) => ({ x: b.tx, y: b.ty, w: b.tw, h: b.th })),
+      crosshairs: this.crosshairs.map((c) => ({ x: c.tx, y: c.ty })),
+    };
+  }
+
+  restore(state: TrackingState) {
+    state.boxes.forEach((target, i) => {
+      const box = this.boxes[i];
+      if (!box) return;
+      box.tx = target.x;
+      box.ty = target.y;
+      box.tw = target.w;
+      box.th = target.h;
+      box.label = this.fakeCoord(box.tx, box.ty);
+    });
+    state.crosshairs.forEach((target, i) => {
+      const ch = this.crosshairs[i];
+      if (!ch) return;
+      ch.tx = target.x;
+      ch.ty = target.y;
+    });
+  }
+
+  /** Call on a snare — jolts every box and crosshair, targets stay put */
+  pulse() {
+    const w = this.halfW;
+    const h = this.vh;
+    for (const box of this.boxes) {
+      box.x = this.nudge(box.x, PULSE_JOLT, w - box.w);
+      box.y = this.nudge(box.y, PULSE_JOLT, h - box.h);
+      box.label = this.fakeCoord(box.x, box.y);
+    }
+    for (const ch of this.crosshairs) {
+      ch.x = this.nudge(ch.x, PULSE_JOLT, w);
+      ch.y = this.nudge(ch.y, PULSE_JOLT, h);
+    }
+  }
+
+  /** Sample a different lane's video from now on */
+  setPlayer(player: VideoPlayer) {
+    this.player = player;
+  }
+
+  setParams(values: ParamValues<typeof TRACKING_PARAMS>) {
+    this.params = values;
+    // Live box count: new boxes come from the drift stream, so a change
+    // mid-track doesn't shift the numbers shuffle() draws
+    if (!this.running) return;
+    this.boxes.length = Math.min(this.boxes.length, values.boxes);
+    while (this.boxes.length < values.boxes) this.boxes.push(this.createBox(this.drift));
+  }
+
+  /** The element it draws into, for the layer stack */
+  get element(): HTMLElement {
+    return this.canvas;
+  }
+
   toggle(): boolean {
     this.visible = !this.visible;
     this.canvas.style.display = this.visible ? 'block' : 'none';
@@ -242,6 +318,7 @@ export class TrackingOverlay {
     this.running = false;
     cancelAnimationFrame(this.rafId);
     window.removeEventListener('resize', this.resize);
+    this.samples.unsubscribe();
     this.canvas.remove();
   }
 
@@ -266,9 +343,9 @@ export class TrackingOverlay {
         if (box.driftCountdown <= 0) {
           if (hotspots.length > 0) {
             // Drift toward a random hotspot with jitter
-            const spot = hotspots[Math.floor(Math.random() * Math.min(hotspots.length, 12))];
-            box.tx = Math.max(0, Math.min(w - box.tw, spot.x - box.tw / 2 + (Math.random() - 0.5) * DRIFT_RANGE));
-            box.ty = Math.max(0, Math.min(h - box.th, spot.y - box.th / 2 + (Math.random() - 0.5) * DRIFT_RANGE));
+            const spot = hotspots[Math.floor(this.drift() * Math.min(hotspots.length, 12))];
+            box.tx = Math.max(0, Math.min(w - box.tw, spot.x - box.tw / 2 + (this.drift() - 0.5) * DRIFT_RANGE));
+            box.ty = Math.max(0, Math.min(h - box.th, spot.y - box.th / 2 + (this.drift() - 0.5) * DRIFT_RANGE));
           } else {
             box.tx = this.nudge(box.tx, DRIFT_RANGE, w - box.tw);
             box.ty = this.nudge(box.ty, DRIFT_RANGE, h - box.th);
@@ -281,9 +358,9 @@ export class TrackingOverlay {
         ch.driftCountdown--;
         if (ch.driftCountdown <= 0) {
           if (hotspots.length > 0) {
-            const spot = hotspots[Math.floor(Math.random() * Math.min(hotspots.length, 8))];
-            ch.tx = Math.max(0, Math.min(w, spot.x + (Math.random() - 0.5) * DRIFT_RANGE));
-            ch.ty = Math.max(0, Math.min(h, spot.y + (Math.random() - 0.5) * DRIFT_RANGE));
+            const spot = hotspots[Math.floor(this.drift() * Math.min(hotspots.length, 8))];
+            ch.tx = Math.max(0, Math.min(w, spot.x + (this.drift() - 0.5) * DRIFT_RANGE));
+            ch.ty = Math.max(0, Math.min(h, spot.y + (this.drift() - 0.5) * DRIFT_RANGE));
           } else {
             ch.tx = this.nudge(ch.tx, DRIFT_RANGE, w);
             ch.ty = this.nudge(ch.ty, DRIFT_RANGE, h);
@@ -293,21 +370,22 @@ export class TrackingOverlay {
       }
 
       // Lerp toward targets
+      const speed = this.params.speed;
       for (const box of this.boxes) {
-        box.x += (box.tx - box.x) * LERP_SPEED;
-        box.y += (box.ty - box.y) * LERP_SPEED;
-        box.w += (box.tw - box.w) * LERP_SPEED;
-        box.h += (box.th - box.h) * LERP_SPEED;
+        box.x += (box.tx - box.x) * speed;
+        box.y += (box.ty - box.y) * speed;
+        box.w += (box.tw - box.w) * speed;
+        box.h += (box.th - box.h) * speed;
       }
       for (const ch of this.crosshairs) {
-        ch.x += (ch.tx - ch.x) * LERP_SPEED;
-        ch.y += (ch.ty - ch.y) * LERP_SPEED;
+        ch.x += (ch.tx - ch.x) * speed;
+        ch.y += (ch.ty - ch.y) * speed;
       }
     }
     // When paused: no drift, no lerp — boxes freeze in place
 
     // Draw boxes (corner brackets)
-    ctx.strokeStyle = COLOR;
+    ctx.strokeStyle = withAlpha(this.params.color, COLOR_ALPHA);
     ctx.lineWidth = LINE_WIDTH;
     ctx.lineCap = 'square';
 
@@ -322,7 +400,7 @@ export class TrackingOverlay {
 
     // Draw labels
     ctx.font = '10px "SF Mono", "Fira Code", monospace';
-    ctx.fillStyle = LABEL_COLOR;
+    ctx.fillStyle = withAlpha(this.params.color, LABEL_ALPHA);
     for (const box of this.boxes) {
       ctx.fillText(box.label, box.x, box.y - 5);
     }
@@ -375,7 +453,7 @@ export class TrackingOverlay {
     // Small center dot
     ctx.beginPath();
     ctx.arc(cx, cy, 1.5, 0, Math.PI * 2);
-    ctx.fillStyle = COLOR;
+    ctx.fillStyle = ctx.strokeStyle;
     ctx.fill();
   }
 }
@@ -0,0 +1,265 @@
+/**
+ * Clip transitions.
+ * A lane normally hard-cuts by flipping video visibility. For anything
+ * softer, a canvas laid over the lane draws the outgoing and incoming
+ * clips together for a fraction of a beat, then gets out of the way:
+ *   crossfade – incoming fades up over outgoing
+ *   dip       – outgoing flashes to white, incoming comes out of it
+ *   wipe      – hard edge sweeps across left to right
+ *   slice     – horizontal strips glitch over one by one
+ *   luma      – incoming shows through outgoing's darkest areas first
+ */
+
+import { config } from './config';
+import { createRandom, type Random } from './random';
+
+/** Every transition, for checking names read back from a take */
+export const TRANSITION_NAMES = ['cut', 'crossfade', 'dip', 'wipe', 'slice', 'luma'] as const;
+export type TransitionName = (typeof TRANSITION_NAMES)[number];
+
+/** Strips in a slice transition */
+const SLICE_COUNT = 12;
+/** How far a strip can jolt sideways mid-slice (fraction of the width) */
+const SLICE_JITTER = 0.06;
+/** Resolution the luma key is computed at (fraction of the lane) */
+const LUMA_SCALE = 0.5;
+/** Softness of the luma key edge (0–255 luma) */
+const LUMA_SOFTNESS = 40;
+
+/** Pick a transition and its length in beats from `config.transitionWeights` */
+export function rollTransition(random: Random): { name: TransitionName; beats: number } {
+  const weights = config.transitionWeights;
+  const totalWeight = weights.reduce((sum, [, w]) => sum + w, 0);
+  let roll = random() * totalWeight;
+  for (const [name, weight, beats] of weights) {
+    roll -= weight;
+    if (roll <= 0) return { name, beats };
+  }
+  return { name: weights[0][0], beats: weights[0][2] };
+}
+
+export class TransitionRenderer {
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private lane: HTMLElement;
+  private random: Random;
+  /** Per-frame slice jitter, apart from `random` so frame rate can't shift slice orders */
+  private jitter: Random;
+  private fromBuf: HTMLCanvasElement | null = null;
+  private toBuf: HTMLCanvasElement | null = null;
+
+  private name: TransitionName = 'cut';
+  private from: HTMLVideoElement | null = null;
+  private to: HTMLVideoElement | null = null;
+  private startedAt = 0;
+  private duration = 0;
+  private onDone: (() => void) | null = null;
+  /** Progress (0–1) at which each slice flips to the incoming clip */
+  private sliceAt: number[] = [];
+  private rafId = 0;
+
+  constructor(lane: HTMLElement, random: Random) {
+    this.lane = lane;
+    this.random = random;
+    this.jitter = createRandom(String(random()));
+    this.canvas = document.createElement('canvas');
+    this.canvas.className = 'transition-canvas';
+    this.canvas.style.display = 'none';
+    lane.appendChild(this.canvas);
+    this.ctx = this.canvas.getContext('2d', { willReadFrequently: true })!;
+  }
+
+  get active(): boolean {
+    return this.onDone !== null;
+  }
+
+  /**
+   * Run `name` from `from` to `to` over `duration` seconds. Both videos
+   * keep playing underneath; `onDone` fires once the outgoing one is free.
+   */
+  play(name: TransitionName, from: HTMLVideoElement, to: HTMLVideoElement, duration: number, onDone: () => void) {
+    this.finish();
+    if (name === 'cut' || duration <= 0) {
+      onDone();
+      return;
+    }
+
+    this.name = name;
+    this.from = from;
+    this.to = to;
+    this.duration = duration;
+    this.onDone = onDone;
+    this.startedAt = performance.now();
+    if (name === 'slice') {
+      this.sliceAt = Array.from({ length: SLICE_COUNT }, () => this.random());
+    }
+
+    const dpr = Math.min(window.devicePixelRatio || 1, 2);
+    this.canvas.width = Math.max(1, Math.floor(this.lane.clientWidth * dpr));
+    this.canvas.height = Math.max(1, Math.floor(this.lane.clientHeight * dpr));
+    this.canvas.style.display = 'block';
+    this.frame();
+  }
+
+  /** Jump to the end: hide the canvas and release the outgoing clip */
+  finish() {
+    const onDone = this.onDone;
+    this.cancel();
+    onDone?.();
+  }
+
+  /** Stop without releasing anything (the pool is being reloaded anyway) */
+  cancel() {
+    cancelAnimationFrame(this.rafId);
+    this.canvas.style.display = 'none';
+    this.onDone = null;
+    this.from = null;
+    this.to = null;
+  }
+
+  destroy() {
+    this.cancel();
+    this.canvas.remove();
+  }
+
+  private frame = () => {
+    if (!this.onDone || !this.from || !this.to) return;
+
+    const t = Math.min(1, (performance.now() - this.startedAt) / (this.duration * 1000));
+    // Until the incoming clip has a frame, keep showing the outgoing one
+    const incoming = this.to.readyState >= 2 ? this.to : null;
+
+    switch (this.name) {
+      case 'crossfade':
+        this.drawCrossfade(t, this.from, incoming);
+        break;
+      case 'dip':
+        this.drawDip(t, this.from, incoming);
+        break;
+      case 'wipe':
+        this.drawWipe(t, this.from, incoming);
+        break;
+      case 'slice':
+        this.drawSlice(t, this.from, incoming);
+        break;
+      case 'luma':
+        this.drawLuma(t, this.from, incoming);
+        break;
+    }
+
+    if (t >= 1) {
+      this.finish();
+      return;
+    }
+    this.rafId = requestAnimationFrame(this.frame);
+  };
+
+  // ─── Transitions ─────────────────────────────────────────────
+
+  private drawCrossfade(t: number, from: HTMLVideoElement, to: HTMLVideoElement | null) {
+    this.drawCover(this.ctx, from);
+    if (!to) return;
+    this.ctx.globalAlpha = t;
+    this.drawCover(this.ctx, to);
+    this.ctx.globalAlpha = 1;
+  }
+
+  private drawDip(t: number, from: HTMLVideoElement, to: HTMLVideoElement | null) {
+    const { width, height } = this.canvas;
+    // Out to white over the first half, back in over the second
+    this.drawCover(this.ctx, t < 0.5 || !to ? from : to);
+    this.ctx.globalAlpha = t < 0.5 ? t * 2 : (1 - t) * 2;
+    this.ctx.fillStyle = '#fff';
+    this.ctx.fillRect(0, 0, width, height);
+    this.ctx.globalAlpha = 1;
+  }
+
+  private drawWipe(t: number, from: HTMLVideoElement, to: HTMLVideoElement | null) {
+    const { width, height } = this.canvas;
+    this.drawCover(this.ctx, from);
+    if (!to) return;
+    const edge = Math.round(width * t);
+    this.ctx.save();
+    this.ctx.beginPath();
+    this.ctx.rect(0, 0, edge, height);
+    this.ctx.clip();
+    this.drawCover(this.ctx, to);
+    this.ctx.restore();
+    this.ctx.fillStyle = '#fff';
+    this.ctx.fillRect(edge - 1, 0, 2, height);
+  }
+
+  private drawSlice(t: number, from: HTMLVideoElement, to: HTMLVideoElement | null) {
+    const { width, height } = this.canvas;
+    const sliceH = height / SLICE_COUNT;
+    for (let i = 0; i < SLICE_COUNT; i++) {
+      const flipped = to !== null && t >= this.sliceAt[i] * 0.8;
+      // Strips jolt sideways while the transition is mid-way
+      const jitter = (this.jitter() - 0.5) * 2 * SLICE_JITTER * width * Math.sin(t * Math.PI);
+      const y = Math.floor(i * sliceH);
+      this.ctx.save();
+      this.ctx.beginPath();
+      this.ctx.rect(0, y, width, Math.ceil(sliceH));
+      this.ctx.clip();
+      this.ctx.translate(jitter, 0);
+      this.drawCover(this.ctx, flipped ? to! : from);
+      this.ctx.restore();
+    }
+  }
+
+  private drawLuma(t: number, from: HTMLVideoElement, to: HTMLVideoElement | null) {
+    if (!to) {
+      this.drawCover(this.ctx, from);
+      return;
+    }
+
+    const w = Math.max(1, Math.floor(this.canvas.width * LUMA_SCALE));
+    const h = Math.max(1, Math.floor(this.canvas.height * LUMA_SCALE));
+    const fromCtx = this.buffer('fromBuf', w, h);
+    const toCtx = this.buffer('toBuf', w, h);
+    this.drawCover(fromCtx, from);
+    this.drawCover(toCtx, to);
+
+    const a = fromCtx.getImageData(0, 0, w, h);
+    const b = toCtx.getImageData(0, 0, w, h).data;
+    const d = a.data;
+    // Key threshold sweeps from below black to above white
+    const threshold = t * (255 + LUMA_SOFTNESS * 2) - LUMA_SOFTNESS;
+    for (let i = 0; i < d.length; i += 4) {
+      const luma = 0.299 * d[i] + 0.587 * d[i + 1] + 0.114 * d[i + 2];
+      const mix = Math.max(0, Math.min(1, (threshold - luma) / LUMA_SOFTNESS + 0.5));
+      d[i] += (b[i] - d[i]) * mix;
+      d[i + 1] += (b[i + 1] - d[i + 1]) * mix;
+      d[i + 2] += (b[i + 2] - d[i + 2]) * mix;
+    }
+    fromCtx.putImageData(a, 0, 0);
+    this.ctx.drawImage(fromCtx.canvas, 0, 0, this.canvas.width, this.canvas.height);
+  }
+
+  // ─── Drawing helpers ─────────────────────────────────────────
+
+  /** object-fit: cover, like the clips themselves */
+  private drawCover(ctx: CanvasRenderingContext2D, video: HTMLVideoElement) {
+    const { width, height } = ctx.canvas;
+    const vw = video.videoWidth;
+    const vh = video.videoHeight;
+    if (!vw || !vh) return;
+    const scale = Math.max(width / vw, height / vh);
+    const sw = width / scale;
+    const sh = height / scale;
+    ctx.drawImage(video, (vw - sw) / 2, (vh - sh) / 2, sw, sh, 0, 0, width, height);
+  }
+
+  private buffer(key: 'fromBuf' | 'toBuf', w: number, h: number): CanvasRenderingContext2D {
+    let canvas = this[key];
+    if (!canvas) {
+      canvas = document.createElement('canvas');
+      this[key] = canvas;
+    }
+    if (canvas.width !== w || canvas.height !== h) {
+      canvas.width = w;
+      canvas.height = h;
+    }
+    return canvas.getContext('2d', { willReadFrequently: true })!;
+  }
+}
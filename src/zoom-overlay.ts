@@ -4,15 +4,37 @@
  * at quarter viewport size. Picks a new crop region on each swap.
  */
 
+import { getSampler, type FrameSampler } from './frame-sampler';
+import { defaults, type ParamSchema, type ParamValues } from './params';
 import type { VideoPlayer } from './player';
+import type { Random } from './random';
+
+/** Where the last shuffle put the overlay and its crop — recorded per cut for replay */
+export interface ZoomState {
+  left: number;
+  top: number;
+  cropX: number;
+  cropY: number;
+}
+
+/** Whether a recorded state (from a take file) can be restored */
+export function isZoomState(state: unknown): state is ZoomState {
+  const s = state as Partial<ZoomState> | null;
+  const isFraction = (v: unknown) => typeof v === 'number' && v >= 0 && v <= 1;
+  return !!s && typeof s === 'object' && Number.isFinite(s.left) && Number.isFinite(s.top) &&
+    isFraction(s.cropX) && isFraction(s.cropY);
+}
+
+export const ZOOM_PARAMS = {
+  /** How much of the source frame to crop (0.3 = 30%) */
+  crop: { type: 'number', label: 'Crop', min: 0.05, max: 1, step: 0.05, default: 0.3 },
+} satisfies ParamSchema;
 
-/** How much of the source frame to crop (0.3 = 30%) */
-const CROP_RATIO = 0.3;
 const SAMPLE_SCALE = 0.5;
 
 export class ZoomOverlay {
   private canvas: HTMLCanvasElement;
-  private ctx: CanvasRenderingContext2D;
+  private sampler: FrameSampler;
   private player: VideoPlayer;
   private visible = false;
   private rafId = 0;
@@ -20,15 +42,18 @@ export class ZoomOverlay {
   // Crop origin as fraction of source dimensions
   private cropX = 0;
   private cropY = 0;
+  private random: Random;
+  private params = defaults(ZOOM_PARAMS);
 
-  constructor(container: HTMLElement, player: VideoPlayer) {
+  constructor(container: HTMLElement, player: VideoPlayer, random: Random = Math.random) {
     this.player = player;
+    this.random = random;
 
     this.canvas = document.createElement('canvas');
     this.canvas.className = 'zoom-overlay';
     this.canvas.style.display = 'none';
     container.appendChild(this.canvas);
-    this.ctx = this.canvas.getContext('2d')!;
+    this.sampler = getSampler();
 
     this.resize();
     window.addEventListener('resize', this.resize);
@@ -49,12 +74,42 @@ export class ZoomOverlay {
     // Random canvas position
     const qw = Math.floor(window.innerWidth * SAMPLE_SCALE);
     const qh = Math.floor(window.innerHeight * SAMPLE_SCALE);
-    this.canvas.style.left = Math.floor(Math.random() * (window.innerWidth - qw)) + 'px';
-    this.canvas.style.top = Math.floor(Math.random() * (window.innerHeight - qh)) + 'px';
+    this.canvas.style.left = Math.floor(this.random() * (window.innerWidth - qw)) + 'px';
+    this.canvas.style.top = Math.floor(this.random() * (window.innerHeight - qh)) + 'px';
 
     // Crop origin biased toward center (0.3–0.7 range)
-    this.cropX = 0.3 + Math.random() * 0.4;
-    this.cropY = 0.3 + Math.random() * 0.4;
+    this.cropX = 0.3 + this.random() * 0.4;
+    this.cropY = 0.3 + this.random() * 0.4;
+  }
+
+  snapshot(): ZoomState {
+    return {
+      left: parseFloat(this.canvas.style.left) || 0,
+      top: parseFloat(this.canvas.style.top) || 0,
+      cropX: this.cropX,
+      cropY: this.cropY,
+    };
+  }
+
+  restore(state: ZoomState) {
+    this.canvas.style.left = state.left + 'px';
+    this.canvas.style.top = state.top + 'px';
+    this.cropX = state.cropX;
+    this.cropY = state.cropY;
+  }
+
+  /** Sample a different lane's video from now on */
+  setPlayer(player: VideoPlayer) {
+    this.player = player;
+  }
+
+  setParams(values: ParamValues<typeof ZOOM_PARAMS>) {
+    this.params = values;
+  }
+
+  /** The element it draws into, for the layer stack */
+  get element(): HTMLElement {
+    return this.canvas;
   }
 
   toggle(): boolean {
@@ -85,31 +140,12 @@ export class ZoomOverlay {
 
     const video = this.player.activeVideo;
     if (video && video.readyState >= 2) {
-      const vw = video.videoWidth;
-      const vh = video.videoHeight;
-      const canvasRatio = this.canvas.width / this.canvas.height;
-      const videoRatio = vw / vh;
-
-      // 1. Cover-fit: find the visible region (matches object-fit:cover)
-      let cvX = 0, cvY = 0, cvW = vw, cvH = vh;
-      if (videoRatio > canvasRatio) {
-        cvW = Math.floor(vh * canvasRatio);
-        cvX = Math.floor((vw - cvW) / 2);
-      } else {
-        cvH = Math.floor(vw / canvasRatio);
-        cvY = Math.floor((vh - cvH) / 2);
-      }
-
-      // 2. Crop from within the cover-fit region
-      const sw = Math.floor(CROP_RATIO * cvW);
-      const sh = Math.floor(CROP_RATIO * cvH);
-      const sx = cvX + Math.floor(this.cropX * (cvW - sw));
-      const sy = cvY + Math.floor(this.cropY * (cvH - sh));
-
-      const ctx = this.ctx;
-      ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
-      ctx.imageSmoothingEnabled = false;
-      ctx.drawImage(video, sx, sy, sw, sh, 0, 0, this.canvas.width, this.canvas.height);
+      // Crop from within the cover-fit region (matches object-fit: cover)
+      const { width, height } = this.canvas;
+      const crop = this.params.crop;
+      this.sampler.blit(this.canvas, video, 'copy', width, height, {
+        crop: [this.cropX * (1 - crop), this.cropY * (1 - crop), crop, crop],
+      });
     }
 
     this.rafId = requestAnimationFrame(this.draw);
@@ -0,0 +1,33 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { analyzeMono } from '../src/beat-detect';
+
+const SAMPLE_RATE = 22050;
+
+/** `seconds` of silence, with a decaying drum-like hit at each of `times` (seconds) */
+function hits(seconds: number, times: number[] = []): Float32Array {
+  const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  const length = Math.round(0.2 * SAMPLE_RATE);
+  for (const time of times) {
+    const start = Math.round(time * SAMPLE_RATE);
+    for (let i = 0; i < length && start + i < samples.length; i++) {
+      samples[start + i] = Math.sin(i * 0.3) * (1 - i / length);
+    }
+  }
+  return samples;
+}
+
+test('a silent song has no beats', () => {
+  const data = analyzeMono(hits(8), SAMPLE_RATE);
+  assert.deepEqual(data.beats, []);
+  assert.deepEqual(data.confidence, []);
+  assert.deepEqual(data.tempo, []);
+  assert.deepEqual(data.downbeats, []);
+});
+
+test('no beat lands in the leading silence', () => {
+  const times = Array.from({ length: 16 }, (_, i) => 3 + i * 0.5);
+  const data = analyzeMono(hits(12, times), SAMPLE_RATE, { bpmOverride: 120 });
+  assert.ok(data.beats.length > 0);
+  assert.ok(data.beats[0] > 2.9, `first beat at ${data.beats[0]}s`);
+});